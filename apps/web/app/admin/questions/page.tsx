@@ -0,0 +1,737 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import AuthGuard from '@/components/AuthGuard';
+import RichText from '@/components/RichText';
+import {
+  DEFAULT_CATEGORY,
+  DIFFICULTIES,
+  MAX_QUESTION_OPTIONS,
+  MIN_QUESTION_OPTIONS,
+  QUESTION_TYPES,
+  TRUE_FALSE_OPTIONS,
+} from '@/lib/questions';
+import { AdminQuestion, Difficulty, QuestionListResponse, QuestionType } from '@/types';
+
+const PAGE_SIZE = 20;
+
+interface QuestionFormValues {
+  type: QuestionType;
+  text: string;
+  imageUrl: string | null;
+  explanation: string;
+  sourceUrl: string;
+  options: string[];
+  correctIdxs: number[]; // one entry for single choice
+  partialCredit: boolean;
+  numericAnswer: string;
+  numericTolerance: string;
+  category: string;
+  tags: string; // comma separated while editing
+  difficulty: Difficulty;
+}
+
+const emptyForm = (): QuestionFormValues => ({
+  type: 'SINGLE_CHOICE',
+  text: '',
+  imageUrl: null,
+  explanation: '',
+  sourceUrl: '',
+  options: ['', '', '', ''],
+  correctIdxs: [],
+  partialCredit: false,
+  numericAnswer: '',
+  numericTolerance: '0',
+  category: DEFAULT_CATEGORY,
+  tags: '',
+  difficulty: 'MEDIUM',
+});
+
+const toFormValues = (question: AdminQuestion): QuestionFormValues => ({
+  type: question.type,
+  text: question.text,
+  imageUrl: question.imageUrl,
+  explanation: question.explanation ?? '',
+  sourceUrl: question.sourceUrl ?? '',
+  // Numeric questions have no options; keep a starting set in case the type changes
+  options: question.type === 'NUMERIC' ? ['', '', '', ''] : question.options,
+  correctIdxs: question.type === 'SINGLE_CHOICE' ? [question.correctIdx] : question.correctIdxs,
+  partialCredit: question.partialCredit,
+  numericAnswer: question.numericAnswer !== null ? String(question.numericAnswer) : '',
+  numericTolerance: String(question.numericTolerance ?? 0),
+  category: question.category,
+  tags: question.tags.join(', '),
+  difficulty: question.difficulty,
+});
+
+// Mirrors the API's question rules so mistakes show up before saving
+const validateForm = (values: QuestionFormValues): string | null => {
+  if (!values.text.trim()) return 'Question text is required';
+  if (!values.category.trim()) return 'Category is required';
+  if (values.sourceUrl.trim() && !/^https?:\/\/\S+$/i.test(values.sourceUrl.trim()))
+    return 'Source link must start with http:// or https://';
+  if (values.type === 'NUMERIC') {
+    if (values.numericAnswer.trim() === '' || !Number.isFinite(Number(values.numericAnswer)))
+      return 'Enter the numeric answer';
+    const tolerance = Number(values.numericTolerance || 0);
+    if (!Number.isFinite(tolerance) || tolerance < 0) return 'Tolerance must be zero or more';
+    return null;
+  }
+  if (values.options.length < MIN_QUESTION_OPTIONS || values.options.length > MAX_QUESTION_OPTIONS)
+    return `A question needs between ${MIN_QUESTION_OPTIONS} and ${MAX_QUESTION_OPTIONS} options`;
+  if (values.options.some((option) => !option.trim())) return 'Options cannot be empty';
+  if (values.correctIdxs.length === 0 || values.correctIdxs.some((idx) => idx >= values.options.length))
+    return values.type === 'MULTI_SELECT' ? 'Mark at least one correct option' : 'Mark the correct option';
+  return null;
+};
+
+// Request body for the question routes
+const toRequestBody = (values: QuestionFormValues) => {
+  const base = {
+    type: values.type,
+    text: values.text.trim(),
+    imageUrl: values.imageUrl,
+    explanation: values.explanation.trim() || null,
+    sourceUrl: values.sourceUrl.trim() || null,
+    category: values.category.trim(),
+    tags: values.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+    difficulty: values.difficulty,
+  };
+  const options = values.options.map((option) => option.trim());
+
+  switch (values.type) {
+    case 'SINGLE_CHOICE':
+      return { ...base, options, correctIdx: values.correctIdxs[0] };
+    case 'MULTI_SELECT':
+      return { ...base, options, correctIdxs: values.correctIdxs, partialCredit: values.partialCredit };
+    case 'NUMERIC':
+      return {
+        ...base,
+        numericAnswer: Number(values.numericAnswer),
+        numericTolerance: Number(values.numericTolerance || 0),
+      };
+  }
+};
+
+const describeAnswer = (question: AdminQuestion): string => {
+  if (question.type === 'NUMERIC') {
+    return question.numericTolerance
+      ? `${question.numericAnswer} (±${question.numericTolerance})`
+      : `${question.numericAnswer}`;
+  }
+  const idxs = question.type === 'SINGLE_CHOICE' ? [question.correctIdx] : question.correctIdxs;
+  return idxs.map((idx) => question.options[idx]).join(', ');
+};
+
+interface QuestionFormProps {
+  initial: QuestionFormValues;
+  submitLabel: string;
+  onSubmit: (values: QuestionFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+const QuestionForm = ({ initial, submitLabel, onSubmit, onCancel }: QuestionFormProps) => {
+  const [values, setValues] = useState<QuestionFormValues>(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const setOption = (index: number, value: string) => {
+    setValues((prev) => ({ ...prev, options: prev.options.map((option, i) => (i === index ? value : option)) }));
+  };
+
+  const addOption = () => {
+    setValues((prev) => ({ ...prev, options: [...prev.options, ''].slice(0, MAX_QUESTION_OPTIONS) }));
+  };
+
+  // Keeps the correct answer pointing at the same option after the list shifts
+  const removeOption = (index: number) => {
+    setValues((prev) => ({
+      ...prev,
+      options: prev.options.filter((_, i) => i !== index),
+      correctIdxs: prev.correctIdxs.filter((idx) => idx !== index).map((idx) => (idx > index ? idx - 1 : idx)),
+    }));
+  };
+
+  const applyTrueFalse = () => {
+    setValues((prev) => ({ ...prev, type: 'SINGLE_CHOICE', options: [...TRUE_FALSE_OPTIONS], correctIdxs: [] }));
+  };
+
+  const toggleCorrect = (index: number) => {
+    setValues((prev) => ({
+      ...prev,
+      correctIdxs:
+        prev.type === 'MULTI_SELECT'
+          ? prev.correctIdxs.includes(index)
+            ? prev.correctIdxs.filter((idx) => idx !== index)
+            : [...prev.correctIdxs, index].sort((a, b) => a - b)
+          : [index],
+    }));
+  };
+
+  // Single choice keeps only one of a multi-select's correct options
+  const changeType = (type: QuestionType) => {
+    setValues((prev) => ({
+      ...prev,
+      type,
+      correctIdxs: type === 'SINGLE_CHOICE' ? prev.correctIdxs.slice(0, 1) : prev.correctIdxs,
+    }));
+  };
+
+  const uploadImage = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await fetch('/api/uploads', { method: 'POST', body: form });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.error?.message || 'Failed to upload image');
+      }
+      setValues((prev) => ({ ...prev, imageUrl: body.url }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload image');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateForm(values);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(values);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save question');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 p-4 bg-gray-50 rounded-md">
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-gray-700">Question</label>
+          <button
+            type="button"
+            onClick={() => setShowPreview((prev) => !prev)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showPreview ? 'Edit' : 'Preview'}
+          </button>
+        </div>
+        {showPreview ? (
+          <div className="mt-1 min-h-[4rem] rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-700">
+            <RichText source={values.text} />
+          </div>
+        ) : (
+          <textarea
+            value={values.text}
+            onChange={(e) => setValues((prev) => ({ ...prev, text: e.target.value }))}
+            rows={4}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm"
+          />
+        )}
+        <p className="mt-1 text-xs text-gray-500">
+          Markdown supported: **bold**, *italic*, `code`, [links](https://example.com) and ``` fenced code blocks.
+        </p>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700">Image (optional)</span>
+        {values.imageUrl ? (
+          <div className="mt-1 flex items-start space-x-3">
+            {/* eslint-disable-next-line @next/next/no-img-element -- served by our own authenticated route */}
+            <img src={values.imageUrl} alt="" className="max-h-32 rounded-md border border-gray-200" />
+            <button
+              type="button"
+              onClick={() => setValues((prev) => ({ ...prev, imageUrl: null }))}
+              className="text-sm text-red-600 hover:text-red-800"
+            >
+              Remove image
+            </button>
+          </div>
+        ) : (
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/gif,image/webp"
+            disabled={uploading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) uploadImage(file);
+              e.target.value = '';
+            }}
+            className="mt-1 block text-sm text-gray-700"
+          />
+        )}
+        {uploading && <p className="mt-1 text-xs text-gray-500">Uploading...</p>}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Type</label>
+        <select
+          value={values.type}
+          onChange={(e) => changeType(e.target.value as QuestionType)}
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-1"
+        >
+          {(Object.keys(QUESTION_TYPES) as QuestionType[]).map((type) => (
+            <option key={type} value={type}>
+              {QUESTION_TYPES[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {values.type === 'NUMERIC' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Answer</label>
+            <input
+              type="number"
+              step="any"
+              value={values.numericAnswer}
+              onChange={(e) => setValues((prev) => ({ ...prev, numericAnswer: e.target.value }))}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-1"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Tolerance (±)</label>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={values.numericTolerance}
+              onChange={(e) => setValues((prev) => ({ ...prev, numericTolerance: e.target.value }))}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-1"
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <span className="block text-sm font-medium text-gray-700">
+            Options ({values.type === 'MULTI_SELECT' ? 'check every correct one' : 'select the correct one'})
+          </span>
+          {values.options.map((option, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type={values.type === 'MULTI_SELECT' ? 'checkbox' : 'radio'}
+                name="correctIdxs"
+                checked={values.correctIdxs.includes(index)}
+                onChange={() => toggleCorrect(index)}
+                aria-label={`Option ${String.fromCharCode(65 + index)} is correct`}
+              />
+              <span className="w-6 font-semibold text-gray-600">{String.fromCharCode(65 + index)}.</span>
+              <input
+                type="text"
+                value={option}
+                onChange={(e) => setOption(index, e.target.value)}
+                className="flex-1 rounded-md border border-gray-300 px-3 py-1"
+              />
+              <button
+                type="button"
+                onClick={() => removeOption(index)}
+                disabled={values.options.length <= MIN_QUESTION_OPTIONS}
+                className="text-sm text-gray-500 hover:text-red-600 disabled:opacity-30"
+                aria-label={`Remove option ${String.fromCharCode(65 + index)}`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="flex space-x-4">
+            <button
+              type="button"
+              onClick={addOption}
+              disabled={values.options.length >= MAX_QUESTION_OPTIONS}
+              className="text-sm text-indigo-600 hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Add option
+            </button>
+            <button type="button" onClick={applyTrueFalse} className="text-sm text-indigo-600 hover:underline">
+              Make true/false
+            </button>
+          </div>
+          {values.type === 'MULTI_SELECT' && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={values.partialCredit}
+                onChange={(e) => setValues((prev) => ({ ...prev, partialCredit: e.target.checked }))}
+              />
+              <span>Partial credit for partly correct picks (speed scoring)</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Explanation (optional)</label>
+        <textarea
+          value={values.explanation}
+          onChange={(e) => setValues((prev) => ({ ...prev, explanation: e.target.value }))}
+          rows={2}
+          placeholder="Shown to players after the answer is revealed"
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Source link (optional)</label>
+        <input
+          type="url"
+          value={values.sourceUrl}
+          onChange={(e) => setValues((prev) => ({ ...prev, sourceUrl: e.target.value }))}
+          placeholder="https://"
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-1"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Category</label>
+          <input
+            type="text"
+            value={values.category}
+            onChange={(e) => setValues((prev) => ({ ...prev, category: e.target.value }))}
+            maxLength={50}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-1"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Tags</label>
+          <input
+            type="text"
+            value={values.tags}
+            onChange={(e) => setValues((prev) => ({ ...prev, tags: e.target.value }))}
+            placeholder="comma, separated"
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-1"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Difficulty</label>
+          <select
+            value={values.difficulty}
+            onChange={(e) => setValues((prev) => ({ ...prev, difficulty: e.target.value as Difficulty }))}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-1"
+          >
+            {(Object.keys(DIFFICULTIES) as Difficulty[]).map((difficulty) => (
+              <option key={difficulty} value={difficulty}>
+                {DIFFICULTIES[difficulty]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={saving || uploading}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md text-sm hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default function AdminQuestionsPage() {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [difficulty, setDifficulty] = useState<Difficulty | ''>('');
+  const [offset, setOffset] = useState(0);
+  const [data, setData] = useState<QuestionListResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [creating, setCreating] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
+
+  useEffect(() => {
+    async function fetchQuestions() {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+        if (search) params.set('search', search);
+        if (difficulty) params.set('difficulty', difficulty);
+
+        const response = await fetch(`/api/questions?${params}`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error?.message || 'Failed to fetch questions');
+        }
+        setData(body);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchQuestions();
+  }, [search, difficulty, offset, reloadKey]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setOffset(0);
+  };
+
+  const saveQuestion = async (values: QuestionFormValues, questionId?: number) => {
+    const response = await fetch(questionId ? `/api/questions/${questionId}` : '/api/questions', {
+      method: questionId ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toRequestBody(values)),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error?.message || 'Failed to save question');
+    }
+
+    setCreating(false);
+    setEditingId(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  const deleteQuestion = async (questionId: number) => {
+    try {
+      const response = await fetch(`/api/questions/${questionId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error?.message || 'Failed to delete question');
+      }
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setConfirmDeleteId(null);
+    }
+  };
+
+  const total = data?.total ?? 0;
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-6xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold text-gray-900">Questions</h1>
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => {
+                    setCreating(true);
+                    setEditingId(null);
+                  }}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-medium hover:bg-indigo-700"
+                >
+                  New Question
+                </button>
+                <Link href="/rooms" className="text-gray-600 hover:text-gray-900">
+                  Back to Rooms
+                </Link>
+              </div>
+            </div>
+
+            {/* Search and filters */}
+            <form onSubmit={handleSearch} className="flex flex-wrap gap-2 mb-6">
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search question text"
+                className="flex-1 min-w-[200px] rounded-md border border-gray-300 px-4 py-2"
+              />
+              <select
+                value={difficulty}
+                onChange={(e) => {
+                  setDifficulty(e.target.value as Difficulty | '');
+                  setOffset(0);
+                }}
+                className="rounded-md border border-gray-300 px-4 py-2"
+              >
+                <option value="">All difficulties</option>
+                {(Object.keys(DIFFICULTIES) as Difficulty[]).map((value) => (
+                  <option key={value} value={value}>
+                    {DIFFICULTIES[value]}
+                  </option>
+                ))}
+              </select>
+              <button type="submit" className="px-4 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50">
+                Search
+              </button>
+            </form>
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            {creating && (
+              <div className="mb-6 bg-white shadow rounded-lg p-4">
+                <h2 className="text-lg font-semibold mb-2">New Question</h2>
+                <QuestionForm
+                  initial={emptyForm()}
+                  submitLabel="Create"
+                  onSubmit={(values) => saveQuestion(values)}
+                  onCancel={() => setCreating(false)}
+                />
+              </div>
+            )}
+
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Question</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Answer</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Answered</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Correct</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {loading ? (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-4 text-center text-gray-500">
+                        Loading questions...
+                      </td>
+                    </tr>
+                  ) : !data || data.questions.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-4 text-center text-gray-500">
+                        No questions found
+                      </td>
+                    </tr>
+                  ) : (
+                    data.questions.map((question) =>
+                      editingId === question.id ? (
+                        <tr key={question.id}>
+                          <td colSpan={6} className="px-4 py-4">
+                            <QuestionForm
+                              initial={toFormValues(question)}
+                              submitLabel="Save"
+                              onSubmit={(values) => saveQuestion(values, question.id)}
+                              onCancel={() => setEditingId(null)}
+                            />
+                          </td>
+                        </tr>
+                      ) : (
+                        <tr key={question.id}>
+                          <td className="px-4 py-4 text-gray-900">
+                            {question.text}
+                            {question.tags.length > 0 && (
+                              <div className="text-xs text-gray-500 mt-1">{question.tags.map((tag) => `#${tag}`).join(' ')}</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-4 text-gray-700">
+                            {describeAnswer(question)}
+                            {question.type !== 'SINGLE_CHOICE' && (
+                              <div className="text-xs text-gray-500">{QUESTION_TYPES[question.type]}</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-4 text-gray-700">
+                            {question.category}
+                            <div className="text-xs text-gray-500">{DIFFICULTIES[question.difficulty]}</div>
+                          </td>
+                          <td className="px-4 py-4 text-right text-gray-700">{question.stats.timesAnswered}</td>
+                          <td className="px-4 py-4 text-right text-gray-700">
+                            {question.stats.accuracy !== null ? `${question.stats.accuracy}%` : '—'}
+                          </td>
+                          <td className="px-4 py-4 text-right whitespace-nowrap">
+                            {confirmDeleteId === question.id ? (
+                              <span className="space-x-2">
+                                <span className="text-sm text-gray-700">Delete?</span>
+                                <button
+                                  onClick={() => deleteQuestion(question.id)}
+                                  className="text-sm text-red-600 hover:underline"
+                                >
+                                  Yes
+                                </button>
+                                <button
+                                  onClick={() => setConfirmDeleteId(null)}
+                                  className="text-sm text-gray-600 hover:underline"
+                                >
+                                  No
+                                </button>
+                              </span>
+                            ) : (
+                              <span className="space-x-3">
+                                <button
+                                  onClick={() => {
+                                    setEditingId(question.id);
+                                    setCreating(false);
+                                  }}
+                                  className="text-sm text-indigo-600 hover:underline"
+                                >
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => setConfirmDeleteId(question.id)}
+                                  className="text-sm text-red-600 hover:underline"
+                                >
+                                  Delete
+                                </button>
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    )
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex justify-between items-center mt-4">
+              <button
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                disabled={loading || offset === 0}
+                className="px-4 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-500">
+                {total === 0 ? 'No questions' : `${offset + 1}-${Math.min(offset + PAGE_SIZE, total)} of ${total}`}
+              </span>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={loading || offset + PAGE_SIZE >= total}
+                className="px-4 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </AuthGuard>
+  );
+}
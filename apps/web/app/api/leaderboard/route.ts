@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@repo/db";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { percentage } from "@/lib/stats";
+import { LeaderboardEntry, LeaderboardPeriod } from "@/types";
+
+const prisma = new PrismaClient();
+
+const PERIOD_DAYS: Record<Exclude<LeaderboardPeriod, "all">, number> = {
+    week: 7,
+    month: 30
+};
+
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: { code: 401, message: "Unauthorized: missing or invalid token" } },
+                { status: 401 }
+            );
+        }
+
+        const searchParams = request.nextUrl.searchParams;
+        const period = (searchParams.get("period") || "all") as LeaderboardPeriod;
+        const limit = parseInt(searchParams.get("limit") || "20");
+        const offset = parseInt(searchParams.get("offset") || "0");
+
+        if (isNaN(limit) || isNaN(offset) || limit < 1 || limit > 100 || offset < 0) {
+            return NextResponse.json(
+                { error: { code: 400, message: "Bad Request: invalid pagination parameters" } },
+                { status: 400 }
+            );
+        }
+
+        if (period !== "all" && !Object.keys(PERIOD_DAYS).includes(period)) {
+            return NextResponse.json(
+                { error: { code: 400, message: "Bad Request: period must be one of all, week, month" } },
+                { status: 400 }
+            );
+        }
+
+        // All-time board ranks by current rating
+        if (period === "all") {
+            const where = { gamesPlayed: { gt: 0 } };
+
+            const [total, ratings] = await Promise.all([
+                prisma.playerRating.count({ where }),
+                prisma.playerRating.findMany({
+                    where,
+                    include: { user: { select: { name: true } } },
+                    orderBy: [{ rating: "desc" }, { userId: "asc" }],
+                    take: limit,
+                    skip: offset
+                })
+            ]);
+
+            const entries: LeaderboardEntry[] = ratings.map((r, i) => ({
+                rank: offset + i + 1,
+                userId: r.userId,
+                userName: r.user.name || "Anonymous",
+                rating: r.rating,
+                gamesPlayed: r.gamesPlayed,
+                wins: r.wins,
+                winRate: percentage(r.wins, r.gamesPlayed),
+                ratingChange: null
+            }));
+
+            return NextResponse.json({ period, total, limit, offset, entries });
+        }
+
+        // Weekly/monthly boards rank by rating gained in the period
+        const since = new Date(Date.now() - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000);
+        const where = { createdAt: { gte: since } };
+
+        const allPlayers = await prisma.matchResult.groupBy({
+            by: ["userId"],
+            where
+        });
+
+        const page = await prisma.matchResult.groupBy({
+            by: ["userId"],
+            where,
+            _sum: { ratingDelta: true },
+            _count: { _all: true },
+            orderBy: [{ _sum: { ratingDelta: "desc" } }, { userId: "asc" }],
+            take: limit,
+            skip: offset
+        });
+
+        const userIds = page.map(row => row.userId);
+
+        const [winCounts, ratings] = await Promise.all([
+            prisma.matchResult.groupBy({
+                by: ["userId"],
+                where: { ...where, userId: { in: userIds }, isWin: true },
+                _count: { _all: true }
+            }),
+            prisma.playerRating.findMany({
+                where: { userId: { in: userIds } },
+                include: { user: { select: { name: true } } }
+            })
+        ]);
+
+        const winsByUser = new Map(winCounts.map(row => [row.userId, row._count._all]));
+        const ratingByUser = new Map(ratings.map(r => [r.userId, r]));
+
+        const entries: LeaderboardEntry[] = page.map((row, i) => {
+            const gamesPlayed = row._count._all;
+            const wins = winsByUser.get(row.userId) ?? 0;
+            const rating = ratingByUser.get(row.userId);
+
+            return {
+                rank: offset + i + 1,
+                userId: row.userId,
+                userName: rating?.user.name || "Anonymous",
+                rating: rating?.rating ?? 1200,
+                gamesPlayed,
+                wins,
+                winRate: percentage(wins, gamesPlayed),
+                ratingChange: row._sum.ratingDelta ?? 0
+            };
+        });
+
+        return NextResponse.json({ period, total: allPlayers.length, limit, offset, entries });
+    } catch (error) {
+        console.error("Error fetching leaderboard:", error);
+        return NextResponse.json(
+            { error: { code: 500, message: "Internal Server Error: unexpected exception" } },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@repo/db";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { MatchReview } from "@/types";
+
+const prisma = new PrismaClient();
+
+// Question-by-question breakdown of a finished match, with the signed in player's own answers
+export async function GET(
+    request: NextRequest,
+    context: { params: { matchId: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.id) {
+            return NextResponse.json(
+                { error: { code: 401, message: "Unauthorized: missing or invalid token" } },
+                { status: 401 }
+            );
+        }
+
+        const { matchId } = await context.params;
+        const userId = parseInt(session.user.id);
+
+        const match = await prisma.match.findUnique({
+            where: { id: matchId },
+            include: {
+                room: { select: { name: true } },
+                results: {
+                    orderBy: { placement: "asc" },
+                    include: { user: { select: { name: true } } }
+                },
+                answerClaims: {
+                    include: { user: { select: { name: true } } }
+                }
+            }
+        });
+
+        if (!match) {
+            return NextResponse.json(
+                { error: { code: 404, message: "Match not found" } },
+                { status: 404 }
+            );
+        }
+
+        // Answers stay hidden while the match can still be played
+        if (match.status === "IN_PROGRESS") {
+            return NextResponse.json(
+                { error: { code: 409, message: "Conflict: match is still in progress" } },
+                { status: 409 }
+            );
+        }
+
+        const myAnswers = await prisma.answerSubmission.findMany({
+            where: { matchId, userId }
+        });
+
+        // Only players of the match may see its answers; an aborted match has no results, only submissions
+        const played = myAnswers.length > 0 || match.results.some(r => r.userId === userId);
+        if (!played) {
+            return NextResponse.json(
+                { error: { code: 403, message: "Forbidden: you did not play in this match" } },
+                { status: 403 }
+            );
+        }
+
+        const questions = await prisma.question.findMany({
+            where: { id: { in: match.questionIds } }
+        });
+
+        const questionsById = new Map(questions.map(q => [q.id, q]));
+        const claimsByIndex = new Map(match.answerClaims.map(c => [c.questionIndex, c]));
+        const answersByIndex = new Map(myAnswers.map(a => [a.questionIndex, a]));
+
+        const review: MatchReview = {
+            matchId: match.id,
+            roomName: match.room?.name ?? null,
+            status: match.status,
+            scoringMode: match.scoringMode,
+            startedAt: match.startedAt.toISOString(),
+            endedAt: match.endedAt?.toISOString() ?? null,
+            standings: match.results.map(r => ({
+                userId: r.userId,
+                userName: r.user.name || "Anonymous",
+                score: r.score,
+                placement: r.placement,
+                isWin: r.isWin,
+                ratingBefore: r.ratingBefore,
+                ratingAfter: r.ratingAfter,
+                ratingDelta: r.ratingDelta
+            })),
+            questions: match.questionIds.map((questionId, questionIndex) => {
+                const question = questionsById.get(questionId);
+                const claim = claimsByIndex.get(questionIndex);
+                const answer = answersByIndex.get(questionIndex);
+
+                return {
+                    questionIndex,
+                    question: question ? {
+                        id: question.id,
+                        type: question.type,
+                        text: question.text,
+                        imageUrl: question.imageUrl,
+                        explanation: question.explanation,
+                        sourceUrl: question.sourceUrl,
+                        options: question.options,
+                        correctIdxs: question.correctIdxs,
+                        partialCredit: question.partialCredit,
+                        numericAnswer: question.numericAnswer,
+                        numericTolerance: question.numericTolerance,
+                        difficulty: question.difficulty
+                    } : null,
+                    winner: claim ? {
+                        userId: claim.userId,
+                        userName: claim.user.name || "Anonymous",
+                        latencyMs: claim.latencyMs
+                    } : null,
+                    myAnswer: answer ? {
+                        choiceIdxs: answer.choiceIdx !== null ? [answer.choiceIdx] : answer.choiceIdxs,
+                        numericAnswer: answer.numericAnswer,
+                        isCorrect: answer.isCorrect,
+                        latencyMs: answer.latencyMs
+                    } : null
+                };
+            })
+        };
+
+        return NextResponse.json(review);
+    } catch (error) {
+        console.error("Error fetching match review:", error);
+        return NextResponse.json(
+            { error: { code: 500, message: "Internal Server Error: unexpected exception" } },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@repo/db";
 import { requireAdmin } from "@/lib/admin";
+import { parseQuestionInput } from "@/lib/questions";
 
 const prisma = new PrismaClient();
 
@@ -23,12 +24,11 @@ export async function PUT(
         }
 
         const body = await request.json();
-        const { text, options, correctIdx } = body;
+        const { data, error: validationError } = parseQuestionInput(body);
 
-        if (!text || !options || !Array.isArray(options) || options.length !== 4 || 
-            typeof correctIdx !== 'number' || correctIdx < 0 || correctIdx >= 4) {
+        if (!data) {
             return NextResponse.json(
-                { error: { code: 400, message: "Invalid question format" } },
+                { error: { code: 400, message: validationError } },
                 { status: 400 }
             );
         }
@@ -46,11 +46,7 @@ export async function PUT(
 
         const updatedQuestion = await prisma.question.update({
             where: { id: questionIdNum },
-            data: {
-                text,
-                options,
-                correctIdx
-            }
+            data
         });
 
         return NextResponse.json(updatedQuestion);
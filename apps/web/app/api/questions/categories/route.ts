@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { PrismaClient } from "@repo/db";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { QuestionCategory } from "@/types";
+
+const prisma = new PrismaClient();
+
+// Categories a room can draw questions from; open to every signed-in user
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: { code: 401, message: "Unauthorized: missing or invalid token" } },
+                { status: 401 }
+            );
+        }
+
+        const groups = await prisma.question.groupBy({
+            by: ["category"],
+            _count: { _all: true },
+            orderBy: { category: "asc" }
+        });
+
+        const categories: QuestionCategory[] = groups.map(group => ({
+            name: group.category,
+            questionCount: group._count._all
+        }));
+
+        return NextResponse.json({ categories });
+    } catch (error) {
+        console.error("Error fetching question categories:", error);
+        return NextResponse.json(
+            { error: { code: 500, message: "Internal Server Error: unexpected exception" } },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@repo/db";
+import { requireAdmin } from "@/lib/admin";
+import { toCsvRow } from "@/lib/csv";
+import { QUESTION_CSV_HEADER, QuestionInput, questionToCsvValues } from "@/lib/questions";
+
+const prisma = new PrismaClient();
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Every column but the id: the same shape the import route accepts, so an export can be re-imported as is
+const EXPORT_COLUMNS = {
+    type: true,
+    text: true,
+    imageUrl: true,
+    explanation: true,
+    sourceUrl: true,
+    options: true,
+    correctIdx: true,
+    correctIdxs: true,
+    partialCredit: true,
+    numericAnswer: true,
+    numericTolerance: true,
+    category: true,
+    tags: true,
+    difficulty: true
+} satisfies Record<keyof QuestionInput, true>;
+
+// Pages through the bank in id order so large exports never load every question at once
+async function* questionBatches(): AsyncGenerator<QuestionInput[]> {
+    for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+        const batch = await prisma.question.findMany({
+            select: EXPORT_COLUMNS,
+            orderBy: { id: "asc" },
+            skip,
+            take: EXPORT_BATCH_SIZE
+        });
+
+        if (batch.length > 0) yield batch;
+        if (batch.length < EXPORT_BATCH_SIZE) return;
+    }
+}
+
+// Streams the whole question bank; ?format=csv|json (default json)
+export async function GET(request: NextRequest) {
+    try {
+        const { error } = await requireAdmin();
+        if (error) return error;
+
+        const format = request.nextUrl.searchParams.get("format") ?? "json";
+        if (format !== "csv" && format !== "json") {
+            return NextResponse.json(
+                { error: { code: 400, message: "Bad Request: format must be csv or json" } },
+                { status: 400 }
+            );
+        }
+
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                try {
+                    if (format === "csv") {
+                        controller.enqueue(encoder.encode(toCsvRow(QUESTION_CSV_HEADER)));
+                        for await (const batch of questionBatches()) {
+                            controller.enqueue(encoder.encode(batch.map(q => toCsvRow(questionToCsvValues(q))).join("")));
+                        }
+                    } else {
+                        let first = true;
+                        controller.enqueue(encoder.encode("["));
+                        for await (const batch of questionBatches()) {
+                            for (const question of batch) {
+                                controller.enqueue(encoder.encode(`${first ? "" : ","}\n${JSON.stringify(question)}`));
+                                first = false;
+                            }
+                        }
+                        controller.enqueue(encoder.encode("\n]\n"));
+                    }
+                    controller.close();
+                } catch (streamError) {
+                    console.error("Error streaming question export:", streamError);
+                    controller.error(streamError);
+                }
+            }
+        });
+
+        return new Response(stream, {
+            headers: {
+                "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+                "Content-Disposition": `attachment; filename="questions.${format}"`
+            }
+        });
+    } catch (error) {
+        console.error("Error exporting questions:", error);
+        return NextResponse.json(
+            { error: { code: 500, message: "Internal Server Error: unexpected exception" } },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@repo/db";
+import { requireAdmin } from "@/lib/admin";
+import { parseCsv } from "@/lib/csv";
+import { csvRecordToQuestionInput, parseQuestionInput, QuestionInput } from "@/lib/questions";
+import { QuestionImportResult } from "@/types";
+
+const prisma = new PrismaClient();
+
+const MAX_IMPORT_ROWS = 1000;
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+// Questions are duplicates when their text matches ignoring case
+const dedupeKey = (text: string) => text.toLowerCase();
+
+// Reads the request body as text, or null once it passes MAX_IMPORT_BYTES; the bytes are
+// counted as they arrive, so a missing or understated content-length can't get more read
+async function readLimitedBody(request: NextRequest): Promise<string | null> {
+    const declaredLength = Number(request.headers.get("content-length") ?? 0);
+    if (declaredLength > MAX_IMPORT_BYTES) return null;
+    if (!request.body) return "";
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.byteLength;
+        if (size > MAX_IMPORT_BYTES) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(chunk.value);
+    }
+
+    return Buffer.concat(chunks).toString("utf8");
+}
+
+// Parses the request body as question records: a JSON array, or CSV with a header row
+function readRecords(contentType: string, body: string): { records?: unknown[]; error?: string } {
+    if (contentType.includes("text/csv")) {
+        const [header, ...rows] = parseCsv(body);
+        if (!header || !header.some(column => column.trim().toLowerCase() === "text")) {
+            return { error: "CSV must start with a header row including a text column" };
+        }
+        return { records: rows.map(cells => csvRecordToQuestionInput(header, cells)) };
+    }
+
+    if (contentType.includes("application/json")) {
+        let records: unknown;
+        try {
+            records = JSON.parse(body);
+        } catch {
+            records = undefined;
+        }
+        if (!Array.isArray(records)) {
+            return { error: "JSON body must be an array of questions" };
+        }
+        return { records };
+    }
+
+    return { error: "Content-Type must be text/csv or application/json" };
+}
+
+// Bulk create questions; ?dryRun=true validates and reports without writing
+export async function POST(request: NextRequest) {
+    try {
+        const { error } = await requireAdmin();
+        if (error) return error;
+
+        const dryRun = ["true", "1"].includes(request.nextUrl.searchParams.get("dryRun") ?? "");
+
+        const body = await readLimitedBody(request);
+        if (body === null) {
+            return NextResponse.json(
+                { error: { code: 413, message: `Payload Too Large: imports are limited to ${MAX_IMPORT_BYTES / 1024 / 1024} MB` } },
+                { status: 413 }
+            );
+        }
+
+        const { records, error: readError } = readRecords(request.headers.get("content-type") ?? "", body);
+        if (!records) {
+            return NextResponse.json(
+                { error: { code: 400, message: `Bad Request: ${readError}` } },
+                { status: 400 }
+            );
+        }
+
+        if (records.length > MAX_IMPORT_ROWS) {
+            return NextResponse.json(
+                { error: { code: 400, message: `Bad Request: at most ${MAX_IMPORT_ROWS} questions per import` } },
+                { status: 400 }
+            );
+        }
+
+        const result: QuestionImportResult = {
+            dryRun,
+            total: records.length,
+            imported: 0,
+            duplicates: [],
+            errors: []
+        };
+
+        const valid: Array<{ row: number; question: QuestionInput }> = [];
+        records.forEach((record, i) => {
+            const { data, error: validationError } = parseQuestionInput(record);
+            if (!data) {
+                result.errors.push({ row: i + 1, message: validationError ?? "Invalid question format" });
+                return;
+            }
+            valid.push({ row: i + 1, question: data });
+        });
+
+        const existing = await prisma.question.findMany({
+            where: { text: { in: valid.map(v => v.question.text), mode: "insensitive" } },
+            select: { text: true }
+        });
+        const seen = new Set(existing.map(q => dedupeKey(q.text)));
+
+        const toCreate: QuestionInput[] = [];
+        for (const { row, question } of valid) {
+            const key = dedupeKey(question.text);
+            if (seen.has(key)) {
+                result.duplicates.push({ row, text: question.text });
+                continue;
+            }
+            seen.add(key);
+            toCreate.push(question);
+        }
+
+        if (dryRun) {
+            result.imported = toCreate.length;
+        } else if (toCreate.length > 0) {
+            const { count } = await prisma.question.createMany({ data: toCreate });
+            result.imported = count;
+        }
+
+        return NextResponse.json(result, { status: !dryRun && result.imported > 0 ? 201 : 200 });
+    } catch (error) {
+        console.error("Error importing questions:", error);
+        return NextResponse.json(
+            { error: { code: 500, message: "Internal Server Error: unexpected exception" } },
+            { status: 500 }
+        );
+    }
+}
@@ -3,6 +3,9 @@ import { PrismaClient } from "@repo/db";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { requireAdmin } from "@/lib/admin";
+import { parseQuestionInput } from "@/lib/questions";
+import { percentage } from "@/lib/stats";
+import { AdminQuestion, Difficulty, QuestionListResponse } from "@/types";
 
 const prisma = new PrismaClient();
 
@@ -11,11 +14,68 @@ export async function GET(request: NextRequest) {
         const { error } = await requireAdmin();
         if (error) return error;
 
-        const questions = await prisma.question.findMany({
-            orderBy: { id: 'asc' }
+        // Optional filters: ?search=&category=&difficulty=&tag=, paginated with ?limit=&offset=
+        const searchParams = request.nextUrl.searchParams;
+        const search = searchParams.get("search")?.trim();
+        const category = searchParams.get("category");
+        const difficulty = searchParams.get("difficulty");
+        const tag = searchParams.get("tag");
+        const limit = parseInt(searchParams.get("limit") || "50");
+        const offset = parseInt(searchParams.get("offset") || "0");
+
+        if (isNaN(limit) || isNaN(offset) || limit < 1 || limit > 100 || offset < 0) {
+            return NextResponse.json(
+                { error: { code: 400, message: "Bad Request: invalid pagination parameters" } },
+                { status: 400 }
+            );
+        }
+
+        if (difficulty && !["EASY", "MEDIUM", "HARD"].includes(difficulty)) {
+            return NextResponse.json(
+                { error: { code: 400, message: "Bad Request: difficulty must be one of EASY, MEDIUM, HARD" } },
+                { status: 400 }
+            );
+        }
+
+        const where = {
+            ...(search && { text: { contains: search, mode: "insensitive" as const } }),
+            ...(category && { category }),
+            ...(difficulty && { difficulty: difficulty as Difficulty }),
+            ...(tag && { tags: { has: tag.toLowerCase() } })
+        };
+
+        const [total, questions] = await Promise.all([
+            prisma.question.count({ where }),
+            prisma.question.findMany({
+                where,
+                orderBy: { id: 'asc' },
+                take: limit,
+                skip: offset
+            })
+        ]);
+
+        const answerCounts = await prisma.answerSubmission.groupBy({
+            by: ["questionId", "isCorrect"],
+            where: { questionId: { in: questions.map(q => q.id) } },
+            _count: { _all: true }
+        });
+
+        const withStats: AdminQuestion[] = questions.map(question => {
+            const counts = answerCounts.filter(c => c.questionId === question.id);
+            const timesAnswered = counts.reduce((sum, c) => sum + c._count._all, 0);
+            const timesCorrect = counts.find(c => c.isCorrect)?._count._all ?? 0;
+            return {
+                ...question,
+                stats: {
+                    timesAnswered,
+                    timesCorrect,
+                    accuracy: timesAnswered > 0 ? percentage(timesCorrect, timesAnswered) : null
+                }
+            };
         });
 
-        return NextResponse.json({ questions });
+        const response: QuestionListResponse = { questions: withStats, total };
+        return NextResponse.json(response);
     } catch (error) {
         console.error("Error fetching questions:", error);
         return NextResponse.json(
@@ -31,22 +91,17 @@ export async function POST(request: NextRequest) {
         if (error) return error;
 
         const body = await request.json();
-        const { text, options, correctIdx } = body;
+        const { data, error: validationError } = parseQuestionInput(body);
 
-        if (!text || !options || !Array.isArray(options) || options.length !== 4 || 
-            typeof correctIdx !== 'number' || correctIdx < 0 || correctIdx >= 4) {
+        if (!data) {
             return NextResponse.json(
-                { error: { code: 400, message: "Invalid question format" } },
+                { error: { code: 400, message: validationError } },
                 { status: 400 }
             );
         }
 
         const question = await prisma.question.create({
-            data: {
-                text,
-                options,
-                correctIdx
-            }
+            data
         });
 
         return NextResponse.json(question, { status: 201 });
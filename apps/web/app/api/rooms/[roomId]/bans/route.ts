@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forwardHostAction, parseUserId } from "@/lib/hostActions";
+
+// Host only: ban a user from the room, kicking them if they are in it. Body: { userId }
+export async function POST(
+    request: NextRequest,
+    context: { params: { roomId: string } }
+) {
+    const { roomId } = await context.params;
+    const body = await request.json().catch(() => null);
+    const userId = parseUserId(body?.userId);
+
+    if (userId === null) {
+        return NextResponse.json(
+            { error: { code: 400, message: "Bad Request: userId is required" } },
+            { status: 400 }
+        );
+    }
+
+    return forwardHostAction(request, { type: "banParticipant", payload: { roomId, userId } });
+}
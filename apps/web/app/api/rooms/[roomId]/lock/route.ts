@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forwardHostAction } from "@/lib/hostActions";
+
+// Host only: lock or unlock the room against new players. Body: { locked }
+export async function PUT(
+    request: NextRequest,
+    context: { params: { roomId: string } }
+) {
+    const { roomId } = await context.params;
+    const body = await request.json().catch(() => null);
+
+    if (typeof body?.locked !== "boolean") {
+        return NextResponse.json(
+            { error: { code: 400, message: "Bad Request: locked must be a boolean" } },
+            { status: 400 }
+        );
+    }
+
+    return forwardHostAction(request, { type: "lockRoom", payload: { roomId, locked: body.locked } });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forwardHostAction, parseUserId } from "@/lib/hostActions";
+
+// Host only: kick a participant out of the room
+export async function DELETE(
+    request: NextRequest,
+    context: { params: { roomId: string; userId: string } }
+) {
+    const { roomId, userId } = await context.params;
+    const userIdNum = parseUserId(userId);
+
+    if (userIdNum === null) {
+        return NextResponse.json(
+            { error: { code: 400, message: "Invalid user ID" } },
+            { status: 400 }
+        );
+    }
+
+    return forwardHostAction(request, { type: "kickParticipant", payload: { roomId, userId: userIdNum } });
+}
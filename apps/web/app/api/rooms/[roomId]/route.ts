@@ -12,7 +12,7 @@ export async function GET(
     try {
         // Check authentication
         const session = await getServerSession(authOptions);
-        if (!session?.user) {
+        if (!session?.user?.id) {
             return NextResponse.json(
                 { error: { code: 401, message: "Unauthorized: missing or invalid token" } },
                 { status: 401 }
@@ -20,6 +20,7 @@ export async function GET(
         }
 
         const { roomId } = await params;
+        const userId = parseInt(session.user.id);
 
         // Get room with host and participants
         const room = await prisma.room.findUnique({
@@ -59,6 +60,20 @@ export async function GET(
             isActive: room.isActive,
             maxPlayers: room.maxPlayers,
             requiresPassword: !!room.password,
+            isPrivate: room.isPrivate,
+            isLocked: room.isLocked,
+            // Only the host hands out the code
+            inviteCode: room.hostId === userId ? room.inviteCode : null,
+            scoringMode: room.scoringMode,
+            questionCount: room.questionCount,
+            questionTimeLimit: room.questionTimeLimit,
+            quizStartDelay: room.quizStartDelay,
+            nextQuestionDelay: room.nextQuestionDelay,
+            categories: room.categories,
+            difficultyMix: room.difficultyMix,
+            shuffleOptionsPerPlayer: room.shuffleOptionsPerPlayer,
+            requireReady: room.requireReady,
+            readyTimeout: room.readyTimeout,
             participantCount: room.roomParticipants.length,
             participants: room.roomParticipants.map(participant => ({
                 userId: participant.userId,
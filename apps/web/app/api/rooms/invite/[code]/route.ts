@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@repo/db";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { normalizeInviteCode } from "@/lib/rooms";
+
+const prisma = new PrismaClient();
+
+// Resolve an invite code to its room; the code itself is checked again when joining
+export async function GET(
+    request: NextRequest,
+    context: { params: { code: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: { code: 401, message: "Unauthorized: missing or invalid token" } },
+                { status: 401 }
+            );
+        }
+
+        const { code } = await context.params;
+        const inviteCode = normalizeInviteCode(code);
+
+        const room = await prisma.room.findUnique({
+            where: { inviteCode },
+            select: { id: true, isActive: true }
+        });
+
+        if (!room || !room.isActive) {
+            return NextResponse.json(
+                { error: { code: 404, message: "No active room with this invite code" } },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ roomId: room.id, inviteCode });
+    } catch (error) {
+        console.error("Error resolving invite code:", error);
+        return NextResponse.json(
+            { error: { code: 500, message: "Internal Server Error: unexpected exception" } },
+            { status: 500 }
+        );
+    }
+}
@@ -1,10 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { PrismaClient } from "@repo/db";
 import { getServerSession } from "next-auth";
+import { hash } from "bcrypt";
 import { authOptions } from "@/lib/auth";
+import { parseQuizSettings } from "@/lib/quizSettings";
+import { generateInviteCode, MIN_ROOM_PASSWORD_LENGTH } from "@/lib/rooms";
 
 const prisma = new PrismaClient();
 
+// Collisions are unlikely with 32^8 codes, but a clash would lock someone out of their room
+async function uniqueInviteCode(): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const inviteCode = generateInviteCode();
+        const existing = await prisma.room.findUnique({ where: { inviteCode }, select: { id: true } });
+        if (!existing) return inviteCode;
+    }
+    throw new Error("Could not generate a unique invite code");
+}
+
 export async function GET(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions);
@@ -28,12 +41,13 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        const total = await prisma.room.count({
-            where: { isActive: true }
-        });
+        // Private rooms are only reachable through their invite code
+        const where = { isActive: true, isPrivate: false };
+
+        const total = await prisma.room.count({ where });
 
         const rooms = await prisma.room.findMany({
-            where: { isActive: true },
+            where,
             include: {
                 host: {
                     select: {
@@ -55,7 +69,19 @@ export async function GET(request: NextRequest) {
             isActive: room.isActive,
             maxPlayers: room.maxPlayers,
             currentPlayers: room.roomParticipants.length,
-            password: room.password,
+            requiresPassword: !!room.password,
+            isPrivate: room.isPrivate,
+            isLocked: room.isLocked,
+            scoringMode: room.scoringMode,
+            questionCount: room.questionCount,
+            questionTimeLimit: room.questionTimeLimit,
+            quizStartDelay: room.quizStartDelay,
+            nextQuestionDelay: room.nextQuestionDelay,
+            categories: room.categories,
+            difficultyMix: room.difficultyMix,
+            shuffleOptionsPerPlayer: room.shuffleOptionsPerPlayer,
+            requireReady: room.requireReady,
+            readyTimeout: room.readyTimeout,
             createdAt: room.createdAt.toISOString()
         }));
 
@@ -81,7 +107,11 @@ export async function POST(req: Request) {
         }
 
         const body = await req.json();
-        const { name, maxPlayers = 4, password } = body;
+        const {
+            name, maxPlayers = 4, password, isPrivate = false,
+            scoringMode, questionCount, questionTimeLimit, quizStartDelay, nextQuestionDelay, categories, difficultyMix,
+            shuffleOptionsPerPlayer, requireReady, readyTimeout
+        } = body;
 
         if (!name || name.trim().length === 0) {
             return NextResponse.json(
@@ -97,9 +127,36 @@ export async function POST(req: Request) {
             );
         }
 
-        if (password && password.length < 4) {
+        if (password && (typeof password !== "string" || password.length < MIN_ROOM_PASSWORD_LENGTH)) {
+            return NextResponse.json(
+                { error: `Password must be at least ${MIN_ROOM_PASSWORD_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        if (typeof isPrivate !== "boolean") {
+            return NextResponse.json(
+                { error: "isPrivate must be a boolean" },
+                { status: 400 }
+            );
+        }
+
+        const { settings, error: settingsError } = parseQuizSettings({
+            scoringMode,
+            questionCount,
+            questionTimeLimit,
+            quizStartDelay,
+            nextQuestionDelay,
+            categories,
+            difficultyMix,
+            shuffleOptionsPerPlayer,
+            requireReady,
+            readyTimeout
+        });
+
+        if (settingsError) {
             return NextResponse.json(
-                { error: "Password must be at least 4 characters" },
+                { error: settingsError },
                 { status: 400 }
             );
         }
@@ -108,7 +165,10 @@ export async function POST(req: Request) {
             data: {
                 name: name.trim(),
                 maxPlayers,
-                password,
+                password: password ? await hash(password, 10) : null,
+                inviteCode: await uniqueInviteCode(),
+                isPrivate,
+                ...settings,
                 hostId: parseInt(session.user.id),
                 isActive: true,
             }
@@ -121,7 +181,20 @@ export async function POST(req: Request) {
             isActive: room.isActive,
             maxPlayers: room.maxPlayers,
             currentPlayers: 1,
-            password: room.password,
+            requiresPassword: !!room.password,
+            isPrivate: room.isPrivate,
+            isLocked: room.isLocked,
+            inviteCode: room.inviteCode, // only ever shown to the host
+            scoringMode: room.scoringMode,
+            questionCount: room.questionCount,
+            questionTimeLimit: room.questionTimeLimit,
+            quizStartDelay: room.quizStartDelay,
+            nextQuestionDelay: room.nextQuestionDelay,
+            categories: room.categories,
+            difficultyMix: room.difficultyMix,
+            shuffleOptionsPerPlayer: room.shuffleOptionsPerPlayer,
+            requireReady: room.requireReady,
+            readyTimeout: room.readyTimeout,
             createdAt: room.createdAt.toISOString()
         };
 
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { readFile } from "fs/promises";
+import path from "path";
+import { authOptions } from "@/lib/auth";
+import { UPLOAD_CONTENT_TYPES, UPLOAD_DIR, UPLOAD_FILENAME_PATTERN } from "@/lib/uploads";
+
+// Serve an uploaded question image to signed in players
+export async function GET(
+    request: NextRequest,
+    context: { params: { filename: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: { code: 401, message: "Unauthorized: missing or invalid token" } },
+                { status: 401 }
+            );
+        }
+
+        const { filename } = await context.params;
+        const match = UPLOAD_FILENAME_PATTERN.exec(filename);
+
+        if (!match) {
+            return NextResponse.json(
+                { error: { code: 404, message: "Image not found" } },
+                { status: 404 }
+            );
+        }
+
+        const file = await readFile(path.join(UPLOAD_DIR, filename)).catch(() => null);
+        if (!file) {
+            return NextResponse.json(
+                { error: { code: 404, message: "Image not found" } },
+                { status: 404 }
+            );
+        }
+
+        return new Response(new Uint8Array(file), {
+            headers: {
+                "Content-Type": UPLOAD_CONTENT_TYPES[match[1]!]!,
+                "Content-Length": String(file.length),
+                // Names are never reused, so the content never changes
+                "Cache-Control": "private, max-age=31536000, immutable",
+                "X-Content-Type-Options": "nosniff"
+            }
+        });
+    } catch (error) {
+        console.error("Error serving image:", error);
+        return NextResponse.json(
+            { error: { code: 500, message: "Internal Server Error: unexpected exception" } },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { requireAdmin } from "@/lib/admin";
+import { detectImageType, MAX_UPLOAD_BYTES, UPLOAD_DIR, uploadUrl } from "@/lib/uploads";
+
+// Upload a question image as multipart form data (field "file"); returns its URL
+export async function POST(request: NextRequest) {
+    try {
+        const { error } = await requireAdmin();
+        if (error) return error;
+
+        const form = await request.formData().catch(() => null);
+        const file = form?.get("file");
+
+        if (!file || typeof file === "string") {
+            return NextResponse.json(
+                { error: { code: 400, message: "Bad Request: expected a file field" } },
+                { status: 400 }
+            );
+        }
+
+        if (file.size > MAX_UPLOAD_BYTES) {
+            return NextResponse.json(
+                { error: { code: 413, message: `Payload Too Large: images are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` } },
+                { status: 413 }
+            );
+        }
+
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const extension = detectImageType(bytes);
+
+        if (!extension) {
+            return NextResponse.json(
+                { error: { code: 415, message: "Unsupported Media Type: only PNG, JPEG, GIF and WebP images are accepted" } },
+                { status: 415 }
+            );
+        }
+
+        const filename = `${randomUUID()}.${extension}`;
+        await mkdir(UPLOAD_DIR, { recursive: true });
+        await writeFile(path.join(UPLOAD_DIR, filename), bytes);
+
+        return NextResponse.json({ url: uploadUrl(filename) }, { status: 201 });
+    } catch (error) {
+        console.error("Error uploading image:", error);
+        return NextResponse.json(
+            { error: { code: 500, message: "Internal Server Error: unexpected exception" } },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PrismaClient } from "@repo/db";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { percentage } from "@/lib/stats";
+import { UserStats } from "@/types";
+
+const prisma = new PrismaClient();
+
+const RATING_HISTORY_LIMIT = 50;
+const RECENT_MATCHES_LIMIT = 10;
+
+export async function GET(
+    request: NextRequest,
+    context: { params: { userId: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json(
+                { error: { code: 401, message: "Unauthorized: missing or invalid token" } },
+                { status: 401 }
+            );
+        }
+
+        const { userId } = await context.params;
+        const userIdNum = parseInt(userId);
+
+        if (isNaN(userIdNum)) {
+            return NextResponse.json(
+                { error: { code: 400, message: "Invalid user ID" } },
+                { status: 400 }
+            );
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: userIdNum },
+            select: { id: true, name: true, playerRating: true }
+        });
+
+        if (!user) {
+            return NextResponse.json(
+                { error: { code: 404, message: "User not found" } },
+                { status: 404 }
+            );
+        }
+
+        const [history, recent, answerStats, correctAnswers] = await Promise.all([
+            prisma.matchResult.findMany({
+                where: { userId: userIdNum },
+                orderBy: { createdAt: "desc" },
+                take: RATING_HISTORY_LIMIT,
+                select: { matchId: true, ratingAfter: true, createdAt: true }
+            }),
+            prisma.matchResult.findMany({
+                where: { userId: userIdNum },
+                orderBy: { createdAt: "desc" },
+                take: RECENT_MATCHES_LIMIT,
+                include: {
+                    match: {
+                        include: {
+                            room: { select: { name: true } },
+                            _count: { select: { results: true } }
+                        }
+                    }
+                }
+            }),
+            prisma.answerSubmission.aggregate({
+                where: { userId: userIdNum },
+                _count: { _all: true },
+                _avg: { latencyMs: true }
+            }),
+            prisma.answerSubmission.count({
+                where: { userId: userIdNum, isCorrect: true }
+            })
+        ]);
+
+        const answersSubmitted = answerStats._count._all;
+        const matchesPlayed = user.playerRating?.gamesPlayed ?? 0;
+        const wins = user.playerRating?.wins ?? 0;
+        const averageAnswerTime = answerStats._avg.latencyMs;
+
+        const stats: UserStats = {
+            userId: user.id,
+            userName: user.name || "Anonymous",
+            rating: user.playerRating?.rating ?? 1200,
+            matchesPlayed,
+            wins,
+            winRate: percentage(wins, matchesPlayed),
+            accuracy: answersSubmitted > 0 ? percentage(correctAnswers, answersSubmitted) : null,
+            averageAnswerTimeMs: averageAnswerTime !== null ? Math.round(averageAnswerTime) : null,
+            ratingHistory: history.reverse().map(r => ({
+                matchId: r.matchId,
+                rating: r.ratingAfter,
+                playedAt: r.createdAt.toISOString()
+            })),
+            recentMatches: recent.map(r => ({
+                matchId: r.matchId,
+                roomName: r.match.room?.name ?? null,
+                playedAt: (r.match.endedAt ?? r.createdAt).toISOString(),
+                score: r.score,
+                placement: r.placement,
+                playerCount: r.match._count.results,
+                isWin: r.isWin,
+                ratingDelta: r.ratingDelta
+            }))
+        };
+
+        return NextResponse.json(stats);
+    } catch (error) {
+        console.error("Error fetching user stats:", error);
+        return NextResponse.json(
+            { error: { code: 500, message: "Internal Server Error: unexpected exception" } },
+            { status: 500 }
+        );
+    }
+}
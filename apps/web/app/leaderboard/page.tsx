@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import AuthGuard from '@/components/AuthGuard';
+import { LeaderboardPeriod, LeaderboardResponse } from '@/types';
+
+const PAGE_SIZE = 20;
+
+const PERIODS: Array<{ value: LeaderboardPeriod; label: string }> = [
+  { value: 'all', label: 'All Time' },
+  { value: 'month', label: 'This Month' },
+  { value: 'week', label: 'This Week' },
+];
+
+export default function LeaderboardPage() {
+  const { data: session } = useSession();
+  const [period, setPeriod] = useState<LeaderboardPeriod>('all');
+  const [offset, setOffset] = useState(0);
+  const [data, setData] = useState<LeaderboardResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchLeaderboard() {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/leaderboard?period=${period}&limit=${PAGE_SIZE}&offset=${offset}`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error?.message || 'Failed to fetch leaderboard');
+        }
+        setData(body);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchLeaderboard();
+  }, [period, offset]);
+
+  const handlePeriodChange = (value: LeaderboardPeriod) => {
+    setPeriod(value);
+    setOffset(0);
+  };
+
+  const currentUserId = session?.user?.id ? parseInt(session.user.id) : null;
+  const total = data?.total ?? 0;
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-5xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold text-gray-900">Leaderboard</h1>
+              <Link href="/rooms" className="text-gray-600 hover:text-gray-900">
+                Back to Rooms
+              </Link>
+            </div>
+
+            {/* Period filter */}
+            <div className="flex space-x-2 mb-6">
+              {PERIODS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => handlePeriodChange(value)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    period === value
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rank</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Player</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Rating</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Games</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Win Rate</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {loading ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                        Loading leaderboard...
+                      </td>
+                    </tr>
+                  ) : !data || data.entries.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                        No rated games in this period yet
+                      </td>
+                    </tr>
+                  ) : (
+                    data.entries.map((entry) => {
+                      const isCurrentUser = entry.userId === currentUserId;
+                      return (
+                        <tr key={entry.userId} className={isCurrentUser ? 'bg-blue-50' : undefined}>
+                          <td className="px-6 py-4 font-semibold text-gray-700">#{entry.rank}</td>
+                          <td className={`px-6 py-4 ${isCurrentUser ? 'text-blue-700 font-semibold' : 'text-gray-900'}`}>
+                            <Link href={`/profile/${entry.userId}`} className="hover:underline">
+                              {entry.userName}
+                            </Link>{' '}
+                            {isCurrentUser && '(You)'}
+                          </td>
+                          <td className="px-6 py-4 text-right font-semibold text-gray-900">
+                            {entry.rating}
+                            {entry.ratingChange !== null && (
+                              <span
+                                className={`ml-2 text-sm ${
+                                  entry.ratingChange > 0
+                                    ? 'text-green-600'
+                                    : entry.ratingChange < 0
+                                      ? 'text-red-600'
+                                      : 'text-gray-500'
+                                }`}
+                              >
+                                ({entry.ratingChange > 0 ? '+' : ''}{entry.ratingChange})
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-right text-gray-700">{entry.gamesPlayed}</td>
+                          <td className="px-6 py-4 text-right text-gray-700">{entry.winRate}%</td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex justify-between items-center mt-4">
+              <button
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                disabled={loading || offset === 0}
+                className="px-4 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-500">
+                {total === 0 ? 'No players' : `${offset + 1}-${Math.min(offset + PAGE_SIZE, total)} of ${total}`}
+              </span>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={loading || offset + PAGE_SIZE >= total}
+                className="px-4 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </AuthGuard>
+  );
+}
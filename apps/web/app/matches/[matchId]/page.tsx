@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import AuthGuard from '@/components/AuthGuard';
+import RichText from '@/components/RichText';
+import { DIFFICULTIES } from '@/lib/questions';
+import { SCORING_MODES } from '@/lib/quizSettings';
+import { MatchReview, ReviewAnswer, ReviewQuestion } from '@/types';
+
+interface MatchPageProps {
+  params: Promise<{ matchId: string }> | { matchId: string };
+}
+
+type ReviewedQuestion = NonNullable<ReviewQuestion['question']>;
+
+// Options are named by text: every player may have seen them in a different order
+const formatOptions = (question: ReviewedQuestion, idxs: number[]) =>
+  idxs.map((idx) => question.options[idx] ?? `Option ${idx + 1}`).join(', ');
+
+const formatCorrectAnswer = (question: ReviewedQuestion) => {
+  if (question.type === 'NUMERIC') {
+    return question.numericTolerance
+      ? `${question.numericAnswer} (±${question.numericTolerance})`
+      : `${question.numericAnswer}`;
+  }
+  return formatOptions(question, question.correctIdxs);
+};
+
+const formatMyAnswer = (question: ReviewedQuestion, answer: ReviewAnswer) =>
+  question.type === 'NUMERIC' ? `${answer.numericAnswer}` : formatOptions(question, answer.choiceIdxs);
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta}`;
+
+const deltaColor = (delta: number) =>
+  delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-gray-500';
+
+export default function MatchPage({ params }: MatchPageProps) {
+  const [matchId, setMatchId] = useState<string>('');
+  const { data: session } = useSession();
+  const [review, setReview] = useState<MatchReview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Handle params resolution
+  useEffect(() => {
+    const resolveParams = async () => {
+      const resolvedParams = await Promise.resolve(params);
+      setMatchId(resolvedParams.matchId);
+    };
+    resolveParams();
+  }, [params]);
+
+  useEffect(() => {
+    if (!matchId) return;
+
+    async function fetchReview() {
+      try {
+        const response = await fetch(`/api/matches/${matchId}`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error?.message || 'Failed to fetch match');
+        }
+        setReview(body);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchReview();
+  }, [matchId]);
+
+  const currentUserId = session?.user?.id ? parseInt(session.user.id) : null;
+  const myResult = review?.standings.find((standing) => standing.userId === currentUserId);
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-4xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold text-gray-900">
+                {review ? review.roomName ?? 'Deleted room' : 'Match Review'}
+              </h1>
+              {currentUserId !== null && (
+                <Link href={`/profile/${currentUserId}`} className="text-gray-600 hover:text-gray-900">
+                  My Profile
+                </Link>
+              )}
+            </div>
+
+            {loading && <div className="text-xl">Loading match...</div>}
+
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            {review && (
+              <div className="space-y-6">
+                {/* Summary */}
+                <div className="bg-white shadow rounded-lg p-6">
+                  <p className="text-sm text-gray-500">
+                    {new Date(review.endedAt ?? review.startedAt).toLocaleString()} · {SCORING_MODES[review.scoringMode]} ·{' '}
+                    {review.questions.length} questions
+                    {review.status === 'ABORTED' && <span className="ml-2 text-red-600 font-medium">Aborted</span>}
+                  </p>
+                  {myResult && (
+                    <p className="mt-2 text-lg text-gray-900">
+                      You placed #{myResult.placement} of {review.standings.length} with {myResult.score} points · rating{' '}
+                      {myResult.ratingBefore} → {myResult.ratingAfter}{' '}
+                      <span className={`font-semibold ${deltaColor(myResult.ratingDelta)}`}>
+                        ({formatDelta(myResult.ratingDelta)})
+                      </span>
+                    </p>
+                  )}
+                </div>
+
+                {/* Standings */}
+                {review.standings.length > 0 && (
+                  <div className="bg-white shadow rounded-lg p-6">
+                    <h2 className="text-xl font-semibold mb-4">Standings</h2>
+                    <ul className="divide-y divide-gray-200">
+                      {review.standings.map((standing) => (
+                        <li key={standing.userId} className="py-3 flex justify-between items-center">
+                          <div>
+                            <Link
+                              href={`/profile/${standing.userId}`}
+                              className={`font-medium hover:underline ${
+                                standing.userId === currentUserId ? 'text-blue-700' : 'text-gray-900'
+                              }`}
+                            >
+                              #{standing.placement} {standing.userName}
+                              {standing.userId === currentUserId && ' (You)'}
+                            </Link>
+                            {standing.isWin && <span className="ml-2">🏆</span>}
+                            <p className="text-sm text-gray-500">{standing.score} points</p>
+                          </div>
+                          <div className="text-right">
+                            <span className="font-semibold text-gray-900">{standing.ratingAfter}</span>
+                            <span className={`ml-2 text-sm font-semibold ${deltaColor(standing.ratingDelta)}`}>
+                              ({formatDelta(standing.ratingDelta)})
+                            </span>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Questions */}
+                <div className="bg-white shadow rounded-lg p-6">
+                  <h2 className="text-xl font-semibold mb-4">Questions</h2>
+                  <div className="space-y-4">
+                    {review.questions.map(({ questionIndex, question, winner, myAnswer }) => (
+                      <div key={questionIndex} className="p-4 rounded-lg border border-gray-200">
+                        {question ? (
+                          <>
+                            <div className="flex text-gray-800">
+                              <span className="font-semibold mr-2">{questionIndex + 1}.</span>
+                              <RichText source={question.text} className="flex-1" />
+                              <span className="ml-2 text-xs text-gray-500">{DIFFICULTIES[question.difficulty]}</span>
+                            </div>
+
+                            <dl className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                              <div>
+                                <dt className="inline text-gray-500">Correct answer: </dt>
+                                <dd className="inline font-medium text-green-700">{formatCorrectAnswer(question)}</dd>
+                              </div>
+                              <div>
+                                <dt className="inline text-gray-500">Your answer: </dt>
+                                <dd
+                                  className={`inline font-medium ${
+                                    !myAnswer ? 'text-gray-500' : myAnswer.isCorrect ? 'text-green-700' : 'text-red-600'
+                                  }`}
+                                >
+                                  {myAnswer
+                                    ? `${formatMyAnswer(question, myAnswer)} in ${formatSeconds(myAnswer.latencyMs)}`
+                                    : 'No answer'}
+                                </dd>
+                              </div>
+                              <div>
+                                <dt className="inline text-gray-500">Won by: </dt>
+                                <dd className="inline font-medium text-gray-900">
+                                  {winner
+                                    ? `${winner.userName}${winner.userId === currentUserId ? ' (You)' : ''}${
+                                        winner.latencyMs !== null ? ` in ${formatSeconds(winner.latencyMs)}` : ''
+                                      }`
+                                    : 'Nobody'}
+                                </dd>
+                              </div>
+                            </dl>
+
+                            {(question.explanation || question.sourceUrl) && (
+                              <div className="mt-3 text-sm text-gray-700">
+                                {question.explanation && <RichText source={question.explanation} />}
+                                {question.sourceUrl && (
+                                  <a
+                                    href={question.sourceUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer nofollow"
+                                    className="inline-block mt-1 text-blue-600 underline hover:text-blue-800"
+                                  >
+                                    Source
+                                  </a>
+                                )}
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          <p className="text-gray-500">
+                            {questionIndex + 1}. This question has been removed from the question bank.
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import AuthGuard from '@/components/AuthGuard';
+import { RatingPoint, UserStats } from '@/types';
+
+interface ProfilePageProps {
+  params: Promise<{ userId: string }> | { userId: string };
+}
+
+interface StatCardProps {
+  label: string;
+  value: string | number;
+}
+
+const StatCard = ({ label, value }: StatCardProps) => (
+  <div className="bg-gray-50 rounded-lg p-4 text-center">
+    <div className="text-2xl font-bold text-gray-900">{value}</div>
+    <div className="text-sm text-gray-500">{label}</div>
+  </div>
+);
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+
+// Minimal SVG line chart of rating after each match
+const RatingChart = ({ points }: { points: RatingPoint[] }) => {
+  if (points.length < 2) {
+    return <p className="text-gray-500">Play a few more matches to see your rating trend.</p>;
+  }
+
+  const ratings = points.map((p) => p.rating);
+  const min = Math.min(...ratings);
+  const max = Math.max(...ratings);
+  const range = max - min || 1;
+
+  const coords = points.map((p, i) => {
+    const x = CHART_PADDING + (i / (points.length - 1)) * (CHART_WIDTH - 2 * CHART_PADDING);
+    const y = CHART_PADDING + (1 - (p.rating - min) / range) * (CHART_HEIGHT - 2 * CHART_PADDING);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40" preserveAspectRatio="none">
+        <polyline points={coords.join(' ')} fill="none" stroke="#4f46e5" strokeWidth={2} />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>Low {min}</span>
+        <span>High {max}</span>
+      </div>
+    </div>
+  );
+};
+
+export default function ProfilePage({ params }: ProfilePageProps) {
+  const [userId, setUserId] = useState<string>('');
+  const { data: session } = useSession();
+  const [stats, setStats] = useState<UserStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Handle params resolution
+  useEffect(() => {
+    const resolveParams = async () => {
+      const resolvedParams = await Promise.resolve(params);
+      setUserId(resolvedParams.userId);
+    };
+    resolveParams();
+  }, [params]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    async function fetchStats() {
+      try {
+        const response = await fetch(`/api/users/${userId}/stats`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error?.message || 'Failed to fetch player stats');
+        }
+        setStats(body);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchStats();
+  }, [userId]);
+
+  const isOwnProfile = !!session?.user?.id && session.user.id === userId;
+
+  return (
+    <AuthGuard>
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-4xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold text-gray-900">
+                {stats ? stats.userName : 'Player Profile'} {isOwnProfile && '(You)'}
+              </h1>
+              <Link href="/leaderboard" className="text-gray-600 hover:text-gray-900">
+                Leaderboard
+              </Link>
+            </div>
+
+            {loading && <div className="text-xl">Loading profile...</div>}
+
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            {stats && (
+              <div className="space-y-6">
+                {/* Summary */}
+                <div className="bg-white shadow rounded-lg p-6">
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                    <StatCard label="Rating" value={stats.rating} />
+                    <StatCard label="Matches Played" value={stats.matchesPlayed} />
+                    <StatCard label="Wins" value={`${stats.wins} (${stats.winRate}%)`} />
+                    <StatCard label="Accuracy" value={stats.accuracy !== null ? `${stats.accuracy}%` : '—'} />
+                    <StatCard
+                      label="Avg. Answer Time"
+                      value={stats.averageAnswerTimeMs !== null ? `${(stats.averageAnswerTimeMs / 1000).toFixed(1)}s` : '—'}
+                    />
+                  </div>
+                </div>
+
+                {/* Rating over time */}
+                <div className="bg-white shadow rounded-lg p-6">
+                  <h2 className="text-xl font-semibold mb-4">Rating Over Time</h2>
+                  <RatingChart points={stats.ratingHistory} />
+                </div>
+
+                {/* Recent matches */}
+                <div className="bg-white shadow rounded-lg p-6">
+                  <h2 className="text-xl font-semibold mb-4">Recent Matches</h2>
+                  {stats.recentMatches.length === 0 ? (
+                    <p className="text-gray-500">No matches played yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-200">
+                      {stats.recentMatches.map((match) => (
+                        <li key={match.matchId} className="py-3 flex justify-between items-center">
+                          <div>
+                            <Link href={`/matches/${match.matchId}`} className="font-medium text-gray-900 hover:underline">
+                              {match.roomName ?? 'Deleted room'}
+                            </Link>
+                            {match.isWin && <span className="ml-2">🏆</span>}
+                            <p className="text-sm text-gray-500">
+                              {new Date(match.playedAt).toLocaleString()} · #{match.placement} of {match.playerCount} · {match.score} points
+                            </p>
+                          </div>
+                          <span
+                            className={`font-semibold ${
+                              match.ratingDelta > 0
+                                ? 'text-green-600'
+                                : match.ratingDelta < 0
+                                  ? 'text-red-600'
+                                  : 'text-gray-500'
+                            }`}
+                          >
+                            {match.ratingDelta > 0 ? '+' : ''}{match.ratingDelta}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </AuthGuard>
+  );
+}
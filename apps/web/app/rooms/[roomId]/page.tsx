@@ -4,11 +4,14 @@ import { useRouter } from 'next/navigation';
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { useSession } from 'next-auth/react';
 import Link from 'next/link';
+import { DifficultyMix } from '@/types';
+import { DIFFICULTY_MIXES } from '@/lib/quizSettings';
 
 interface Participant {
   userId: number;
   userName: string;
   score: number;
+  disconnected?: boolean; // socket dropped, seat held while they reconnect
 }
 
 interface RoomDetails {
@@ -17,7 +20,17 @@ interface RoomDetails {
   hostId: number;
   isActive: boolean;
   maxPlayers: number;
-  password: string | null;
+  requiresPassword: boolean;
+  isPrivate: boolean;
+  inviteCode: string | null; // host only
+  isLocked: boolean;
+  questionCount: number;
+  questionTimeLimit: number;
+  categories: string[];
+  difficultyMix: DifficultyMix;
+  shuffleOptionsPerPlayer: boolean;
+  requireReady: boolean;
+  readyTimeout: number;
   createdAt: string;
   participants: Participant[];
 }
@@ -43,6 +56,33 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
   const [ws, setWs] = useState<WebSocket | null>(null);
   const [wsError, setWsError] = useState<string | null>(null);
   const [left, setLeft] = useState(false);
+  // Set when the server wants a password or invite code before letting us in
+  const [joinPrompt, setJoinPrompt] = useState<string | null>(null);
+  const [joinPassword, setJoinPassword] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [readyUserIds, setReadyUserIds] = useState<number[]>([]);
+  // Once the host tried to start early, when the ready check gives up waiting
+  const [readyDeadline, setReadyDeadline] = useState<number | null>(null);
+  const [readySecondsLeft, setReadySecondsLeft] = useState<number | null>(null);
+  const joinedRef = useRef(false);
+  // Read by the message handler, which must not change identity when the session loads
+  const currentUserIdRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    currentUserIdRef.current = session?.user?.id ? parseInt((session.user as SessionUser).id) : null;
+  }, [session]);
+
+  useEffect(() => {
+    if (readyDeadline === null) {
+      setReadySecondsLeft(null);
+      return;
+    }
+
+    const tick = () => setReadySecondsLeft(Math.max(0, Math.ceil((readyDeadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [readyDeadline]);
 
   // Handle params resolution
   useEffect(() => {
@@ -103,6 +143,9 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
 
           case 'joinedRoom':
             console.log('Successfully joined room:', message.payload?.roomId);
+            joinedRef.current = true;
+            setJoinPrompt(null);
+            setJoinPassword('');
             break;
 
           case 'participantJoined':
@@ -146,6 +189,52 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
             }
             break;
 
+          case 'lobbyUpdate':
+            setReadyUserIds(message.payload?.readyUserIds ?? []);
+            setReadyDeadline(message.payload?.readyDeadline ? new Date(message.payload.readyDeadline).getTime() : null);
+            break;
+
+          case 'participantKicked':
+            if (message.payload?.userId === currentUserIdRef.current) {
+              delete (window as any).roomWebSocket;
+              setError(message.payload.banned ? 'You have been banned from this room' : 'You have been removed from this room');
+              setTimeout(() => router.push('/rooms'), 3000);
+            } else if (message.payload?.userId) {
+              setRoom((prev) =>
+                prev
+                  ? { ...prev, participants: prev.participants.filter((p) => p.userId !== message.payload.userId) }
+                  : null
+              );
+            }
+            break;
+
+          case 'hostTransferred':
+            if (message.payload?.hostId) {
+              setRoom((prev) => (prev ? { ...prev, hostId: message.payload.hostId } : null));
+            }
+            break;
+
+          case 'roomLockChanged':
+            setRoom((prev) => (prev ? { ...prev, isLocked: !!message.payload?.locked } : null));
+            break;
+
+          case 'participantDisconnected':
+          case 'participantReconnected':
+            if (message.payload?.userId) {
+              const disconnected = message.type === 'participantDisconnected';
+              setRoom((prev) =>
+                prev
+                  ? {
+                      ...prev,
+                      participants: prev.participants.map((p) =>
+                        p.userId === message.payload.userId ? { ...p, disconnected } : p
+                      ),
+                    }
+                  : null
+              );
+            }
+            break;
+
           case 'quizStarting':
             console.log('Quiz starting, navigating to quiz page...');
             router.push(`/rooms/${roomId}/quiz`);
@@ -161,6 +250,10 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
             console.log('Question ended (in lobby):', message.payload);
             break;
 
+          case 'quizAborted':
+            console.log('Quiz aborted (in lobby):', message.payload);
+            break;
+
           case 'quizFinished':
             // Handle quiz completion
             console.log('Quiz finished (in lobby):', message.payload);
@@ -168,6 +261,16 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
 
           case 'error':
             console.error('WebSocket error:', message.payload?.message || 'Unknown error');
+            // A join rejected for missing or wrong credentials asks for them instead of failing the page
+            if (!joinedRef.current && message.payload?.code === 401) {
+              setJoinPrompt(message.payload.message);
+              break;
+            }
+            // Conflicts such as starting before everyone is ready leave the lobby usable
+            if (joinedRef.current && message.payload?.code === 409) {
+              setWsError(message.payload.message);
+              break;
+            }
             setError(message.payload?.message || 'An error occurred');
             break;
 
@@ -187,7 +290,7 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
         }
       }
     },
-    [roomId, router, setRoom, setError]
+    [roomId, router, setRoom, setError, setWsError]
   );
 
   // WebSocket connection
@@ -197,6 +300,8 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
     // Check if WebSocket already exists (to prevent multiple connections)
     if ((window as any).roomWebSocket) {
       console.log('WebSocket already exists, reusing connection.');
+      // The socket may have been opened by the quiz page, so route its messages here
+      (window as any).roomWebSocket.onmessage = handleWebSocketMessage;
       setWs((window as any).roomWebSocket);
       return;
     }
@@ -219,11 +324,12 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
           // artificial delay to give time for the setup of onmessage handler
           await new Promise((r) => setTimeout(r, 100));
 
-          // Send join request after connection is established
+          // Send join request after connection is established; invite links carry ?invite=CODE
+          const inviteCode = new URLSearchParams(window.location.search).get('invite') ?? undefined;
           socket.send(
             JSON.stringify({
               type: 'join',
-              payload: { roomId },
+              payload: { roomId, inviteCode },
             })
           );
         };
@@ -242,7 +348,12 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
 
           // Attempt to reconnect if connection was lost unexpectedly (not manually closed) and connection limit was not exceeded
           if (event.code !== 1000 && event.code !== 1008 && session?.user) {
-            setTimeout(connectWebSocket, 3000);
+            setTimeout(() => {
+              // The quiz page may already have reconnected on its own
+              if (!(window as any).roomWebSocket) {
+                connectWebSocket();
+              }
+            }, 3000);
           }
         };
       } catch (err) {
@@ -288,6 +399,63 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
     );
   }, [roomId]);
 
+  const handleToggleReady = useCallback((ready: boolean) => {
+    const socket = (window as any).roomWebSocket as WebSocket | undefined;
+
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      setError('WebSocket connection not available');
+      return;
+    }
+
+    setWsError(null);
+    socket.send(
+      JSON.stringify({
+        type: 'setReady',
+        payload: { roomId, ready },
+      })
+    );
+  }, [roomId]);
+
+  const handleJoinWithPassword = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const socket = (window as any).roomWebSocket as WebSocket | undefined;
+
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      setError('WebSocket connection not available');
+      return;
+    }
+
+    socket.send(
+      JSON.stringify({
+        type: 'join',
+        payload: { roomId, password: joinPassword },
+      })
+    );
+  }, [roomId, joinPassword]);
+
+  // Kick, ban, transfer host or lock; the server broadcasts the outcome to the room
+  const sendHostAction = useCallback((type: string, payload: Record<string, unknown>) => {
+    const socket = (window as any).roomWebSocket as WebSocket | undefined;
+
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      setError('WebSocket connection not available');
+      return;
+    }
+
+    socket.send(JSON.stringify({ type, payload: { roomId, ...payload } }));
+  }, [roomId]);
+
+  const copyInviteLink = useCallback(async () => {
+    if (!room?.inviteCode) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/rooms/${room.id}?invite=${room.inviteCode}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy invite link:', err);
+    }
+  }, [room]);
+
   const handleLeave = useCallback(() => {
     const socket = (window as any).roomWebSocket as WebSocket | undefined;
 
@@ -343,6 +511,49 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
   const user = session?.user as SessionUser | undefined;
   const isHost =
     user?.id && room.hostId && parseInt(user.id) === room.hostId;
+  const isReady = !!user?.id && readyUserIds.includes(parseInt(user.id));
+  const notReadyCount = room.participants.filter(
+    (p) => p.userId !== room.hostId && !readyUserIds.includes(p.userId)
+  ).length;
+
+  if (joinPrompt) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <form onSubmit={handleJoinWithPassword} className="bg-white rounded-lg shadow-lg p-6 w-full max-w-sm space-y-4">
+          <h1 className="text-2xl font-bold">{room.name}</h1>
+          <p className="text-gray-600">{joinPrompt}</p>
+          {room.requiresPassword && (
+            <input
+              type="password"
+              value={joinPassword}
+              onChange={(e) => setJoinPassword(e.target.value)}
+              placeholder="Room password"
+              autoFocus
+              className="w-full rounded-md border border-gray-300 px-3 py-2"
+            />
+          )}
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={() => router.push('/rooms')}
+              className="px-4 py-2 text-gray-600 hover:text-gray-900"
+            >
+              Back to Rooms
+            </button>
+            {room.requiresPassword && (
+              <button
+                type="submit"
+                disabled={!joinPassword}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                Join
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen p-8">
@@ -368,9 +579,46 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
                 <p>
                   <span className="font-medium">Max Players:</span> {room.maxPlayers}
                 </p>
+                <p>
+                  <span className="font-medium">Questions:</span> {room.questionCount} ×{' '}
+                  {room.questionTimeLimit / 1000}s
+                </p>
+                <p>
+                  <span className="font-medium">Categories:</span>{' '}
+                  {room.categories.length > 0 ? room.categories.join(', ') : 'All'}
+                </p>
+                <p>
+                  <span className="font-medium">Difficulty:</span> {DIFFICULTY_MIXES[room.difficultyMix]}
+                </p>
+                <p>
+                  <span className="font-medium">Option Order:</span>{' '}
+                  {room.shuffleOptionsPerPlayer ? 'Shuffled per player' : 'Shuffled per match'}
+                </p>
+                {room.requireReady && (
+                  <p>
+                    <span className="font-medium">Ready Check:</span> Everyone, or {room.readyTimeout / 1000}s after
+                    the host first tries to start
+                  </p>
+                )}
+                <p>
+                  <span className="font-medium">Access:</span>{' '}
+                  {[room.isPrivate ? 'Private' : 'Public', room.requiresPassword && 'password protected']
+                    .filter(Boolean)
+                    .join(', ')}
+                </p>
+                {room.inviteCode && (
+                  <p>
+                    <span className="font-medium">Invite Code:</span>{' '}
+                    <span className="font-mono tracking-widest">{room.inviteCode}</span>
+                    <button onClick={copyInviteLink} className="ml-2 text-sm text-blue-600 hover:text-blue-800">
+                      {copied ? 'Copied!' : 'Copy link'}
+                    </button>
+                  </p>
+                )}
                 <p>
                   <span className="font-medium">Status:</span>{' '}
                   {room.isActive ? 'Active' : 'Inactive'}
+                  {room.isLocked && ' (locked)'}
                 </p>
                 <p>
                   <span className="font-medium">Created:</span>{' '}
@@ -392,9 +640,42 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
                       key={participant.userId}
                       className="flex justify-between items-center"
                     >
-                      <span>{participant.userName}</span>
-                      <span className="text-gray-500">
-                        Score: {participant.score}
+                      <span>
+                        {participant.userName}
+                        {participant.disconnected && (
+                          <span className="ml-2 text-sm text-yellow-600">(reconnecting...)</span>
+                        )}
+                        {participant.userId !== room.hostId && readyUserIds.includes(participant.userId) && (
+                          <span className="ml-2 text-sm text-green-600">✓ Ready</span>
+                        )}
+                      </span>
+                      <span className="flex items-center space-x-3">
+                        <span className="text-gray-500">Score: {participant.score}</span>
+                        {participant.userId === room.hostId && (
+                          <span className="text-xs font-semibold text-indigo-600">HOST</span>
+                        )}
+                        {isHost && participant.userId !== room.hostId && (
+                          <>
+                            <button
+                              onClick={() => sendHostAction('transferHost', { userId: participant.userId })}
+                              className="text-xs text-indigo-600 hover:underline"
+                            >
+                              Make host
+                            </button>
+                            <button
+                              onClick={() => sendHostAction('kickParticipant', { userId: participant.userId })}
+                              className="text-xs text-red-600 hover:underline"
+                            >
+                              Kick
+                            </button>
+                            <button
+                              onClick={() => sendHostAction('banParticipant', { userId: participant.userId })}
+                              className="text-xs text-red-600 hover:underline"
+                            >
+                              Ban
+                            </button>
+                          </>
+                        )}
                       </span>
                     </li>
                   ))}
@@ -404,7 +685,14 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
           </div>
 
           {isHost && room.isActive && (
-            <div className="mt-8 text-center">
+            <div className="mt-8 text-center space-x-3">
+              <button
+                onClick={() => sendHostAction('lockRoom', { locked: !room.isLocked })}
+                disabled={!ws || ws.readyState !== WebSocket.OPEN}
+                className="px-6 py-3 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {room.isLocked ? 'Unlock Room' : 'Lock Room'}
+              </button>
               <button
                 onClick={handleStartQuiz}
                 disabled={!ws || ws.readyState !== WebSocket.OPEN}
@@ -412,12 +700,31 @@ export default function RoomLobby({ params }: RoomLobbyProps) {
               >
                 Start Quiz
               </button>
+              {room.requireReady && notReadyCount > 0 && (
+                <p className="mt-2 text-sm text-gray-600">
+                  {notReadyCount} {notReadyCount === 1 ? 'player is' : 'players are'} not ready
+                  {readySecondsLeft !== null &&
+                    (readySecondsLeft > 0 ? ` (you can start anyway in ${readySecondsLeft}s)` : ' (you can start anyway)')}
+                </p>
+              )}
             </div>
           )}
 
           {!isHost && (
-            <div className="mt-8 text-center text-gray-600">
-              Waiting for host to start the quiz...
+            <div className="mt-8 text-center text-gray-600 space-y-3">
+              <button
+                onClick={() => handleToggleReady(!isReady)}
+                disabled={!ws || ws.readyState !== WebSocket.OPEN}
+                className={`px-6 py-3 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isReady ? 'bg-gray-200 text-gray-800 hover:bg-gray-300' : 'bg-green-500 text-white hover:bg-green-600'
+                }`}
+              >
+                {isReady ? 'Not Ready' : "I'm Ready"}
+              </button>
+              <p>
+                Waiting for host to start the quiz...
+                {readySecondsLeft !== null && readySecondsLeft > 0 && ` The ready check ends in ${readySecondsLeft}s.`}
+              </p>
             </div>
           )}
 
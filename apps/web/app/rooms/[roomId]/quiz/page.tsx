@@ -1,14 +1,49 @@
 'use client';
 
 import { useEffect, useState, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useSession } from 'next-auth/react';
+import { Difficulty, QuestionType } from '@/types';
+import { DIFFICULTIES } from '@/lib/questions';
+import RichText from '@/components/RichText';
 
+// Public question shape - the correct answer only arrives with endQuestion
 interface Question {
   id: number;
-  text: string;
-  options: string[];
-  correctIdx: number;
+  type: QuestionType;
+  text: string; // markdown
+  imageUrl: string | null;
+  options: string[]; // empty for numeric questions
+  category: string;
+  difficulty: Difficulty;
+}
+
+// Correct answer revealed by endQuestion, option indexes in this player's order
+interface RevealedAnswer {
+  correctIdxs: number[];
+  numericAnswer: number | null;
+  numericTolerance: number | null;
+  explanation: string | null; // markdown
+  sourceUrl: string | null;
+}
+
+// A revealed question, kept for the review after the final standings
+interface ReviewItem {
+  questionIndex: number;
+  question: Question;
+  answer: RevealedAnswer;
+}
+
+interface QuestionPoints {
+  userId: number;
+  points: number;
+}
+
+interface PlayerScore {
+  userId: number;
+  userName: string;
+  score: number;
 }
 
 interface Standing {
@@ -16,6 +51,7 @@ interface Standing {
   userName: string;
   score: number;
   newRating: number;
+  ratingDelta: number;
 }
 
 interface QuizState {
@@ -23,12 +59,15 @@ interface QuizState {
   questionIndex: number | null;
   timerSeconds: number;
   hasAnswered: boolean;
-  selectedIdx: number | null;
-  correctIdx: number | null;
+  selectedIdxs: number[]; // submitted picks
+  submittedNumber: number | null; // submitted numeric answer
+  answer: RevealedAnswer | null;
   winnerUserId: number | null;
+  questionPoints: QuestionPoints[] | null;
   isWaiting: boolean;
   showResults: boolean;
   standings: Standing[] | null;
+  matchId: string | null; // set with the final standings, for the review page
   showStandings: boolean;
   questionEndTime?: number; // Server timestamp for synchronization
 }
@@ -43,6 +82,51 @@ interface SessionUser {
   name: string | null;
 }
 
+const optionLabel = (idx: number) => String.fromCharCode(65 + idx);
+
+function describeAnswer(question: Question, answer: RevealedAnswer): string {
+  if (question.type === 'NUMERIC') {
+    return answer.numericTolerance ? `${answer.numericAnswer} (±${answer.numericTolerance})` : `${answer.numericAnswer}`;
+  }
+  return answer.correctIdxs.map((idx) => `${optionLabel(idx)}. ${question.options[idx]}`).join(', ');
+}
+
+function isSubmissionCorrect(question: Question, state: QuizState): boolean {
+  const { answer } = state;
+  if (!answer) return false;
+  if (question.type === 'NUMERIC') {
+    return state.submittedNumber !== null && answer.numericAnswer !== null &&
+      Math.abs(state.submittedNumber - answer.numericAnswer) <= (answer.numericTolerance ?? 0) + 1e-9;
+  }
+  return state.selectedIdxs.length === answer.correctIdxs.length &&
+    state.selectedIdxs.every((idx) => answer.correctIdxs.includes(idx));
+}
+
+// Explanation and source link revealed with the answer, if the question has them
+function AnswerExplanation({ answer }: { answer: RevealedAnswer }) {
+  if (!answer.explanation && !answer.sourceUrl) return null;
+
+  return (
+    <div className="mt-3 text-sm text-gray-700">
+      {answer.explanation && <RichText source={answer.explanation} />}
+      {answer.sourceUrl && (
+        <a
+          href={answer.sourceUrl}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="inline-block mt-1 text-blue-600 underline hover:text-blue-800"
+        >
+          Source
+        </a>
+      )}
+    </div>
+  );
+}
+
+// Give up on a dropped connection after this many failed reconnects
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+
 export default function QuizPage({ params }: QuizPageProps) {
   // Fix: Handle params properly without experimental use() API
   const [roomId, setRoomId] = useState<string>('');
@@ -53,19 +137,40 @@ export default function QuizPage({ params }: QuizPageProps) {
     questionIndex: null,
     timerSeconds: 10,
     hasAnswered: false,
-    selectedIdx: null,
-    correctIdx: null,
+    selectedIdxs: [],
+    submittedNumber: null,
+    answer: null,
     winnerUserId: null,
+    questionPoints: null,
     isWaiting: true,
     showResults: false,
     standings: null,
+    matchId: null,
     showStandings: false,
     questionEndTime: undefined
   });
   const [error, setError] = useState<string | null>(null);
-  const messageHandlerRef = useRef<((event: MessageEvent) => void) | null>(null);
-  const errorHandlerRef = useRef<((event: Event) => void) | null>(null);
-  const closeHandlerRef = useRef<((event: CloseEvent) => void) | null>(null);
+  // Rejections the quiz carries on from, e.g. answering while paused; cleared after a moment
+  const [notice, setNotice] = useState<string | null>(null);
+  // Picks and numeric input not yet submitted
+  const [draftIdxs, setDraftIdxs] = useState<number[]>([]);
+  const [draftNumber, setDraftNumber] = useState('');
+  // Running score per player, seeded by `resumed` and advanced by each endQuestion
+  const [scores, setScores] = useState<Record<number, number>>({});
+  const [review, setReview] = useState<ReviewItem[]>([]);
+  const [reconnecting, setReconnecting] = useState(false);
+  // Set by the host; the question timer stands still until the quiz resumes
+  const [paused, setPaused] = useState(false);
+  const [hostId, setHostId] = useState<number | null>(null);
+  const [connectionAttempt, setConnectionAttempt] = useState(0);
+  const failedAttemptsRef = useRef(0);
+  // Read by the message handler, which must not change identity when the session loads
+  const currentUserIdRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const user = session?.user as SessionUser | undefined;
+    currentUserIdRef.current = user?.id ? parseInt(user.id) : null;
+  }, [session]);
 
   // Handle params resolution
   useEffect(() => {
@@ -76,6 +181,30 @@ export default function QuizPage({ params }: QuizPageProps) {
     resolveParams();
   }, [params]);
 
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(() => setNotice(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  // The host's controls need the room's host; coming from the lobby there is no `resumed` to carry it
+  useEffect(() => {
+    if (!roomId) return;
+
+    async function fetchHost() {
+      try {
+        const response = await fetch(`/api/rooms/${roomId}`);
+        if (!response.ok) throw new Error('Failed to fetch room details');
+        const data = await response.json();
+        setHostId((prev) => prev ?? data.hostId);
+      } catch (err) {
+        console.error('Error fetching room host:', err);
+      }
+    }
+
+    fetchHost();
+  }, [roomId]);
+
   // WebSocket message handler
   const handleMessage = useCallback((event: MessageEvent) => {
     try {
@@ -110,59 +239,181 @@ export default function QuizPage({ params }: QuizPageProps) {
               timeDifference: serverEndTime - now
             });
             
-            setQuizState({
-              currentQuestion: question,
-              questionIndex,
-              timerSeconds: initialSeconds,
-              hasAnswered: false,
-              selectedIdx: null,
-              correctIdx: null,
-              winnerUserId: null,
-              isWaiting: false,
-              showResults: false,
-              standings: null,
-              showStandings: false,
-              questionEndTime: serverEndTime // Store server end time for sync
+            setDraftIdxs([]);
+            setDraftNumber('');
+            setPaused(false);
+            // The same question comes again with a new deadline when a paused quiz resumes
+            setQuizState(prev => {
+              const sameQuestion = prev.questionIndex === questionIndex && prev.currentQuestion?.id === question.id;
+              return {
+                currentQuestion: question,
+                questionIndex,
+                timerSeconds: initialSeconds,
+                hasAnswered: sameQuestion && prev.hasAnswered,
+                selectedIdxs: sameQuestion ? prev.selectedIdxs : [],
+                submittedNumber: sameQuestion ? prev.submittedNumber : null,
+                answer: null,
+                winnerUserId: null,
+                questionPoints: null,
+                isWaiting: false,
+                showResults: false,
+                standings: null,
+                matchId: null,
+                showStandings: false,
+                questionEndTime: serverEndTime // Store server end time for sync
+              };
             });
           }
           break;
 
+        case 'quizPaused':
+          setPaused(true);
+          if (message.payload?.phase === 'question') {
+            setQuizState(prev => ({
+              ...prev,
+              timerSeconds: Math.ceil(message.payload.remainingMs / 1000),
+              questionEndTime: undefined
+            }));
+          }
+          break;
+
+        case 'quizResumed':
+          // A question phase is re-issued right after as nextQuestion, with its new deadline
+          setPaused(false);
+          break;
+
+        case 'hostTransferred':
+          setHostId(message.payload?.hostId ?? null);
+          break;
+
         case 'endQuestion':
           console.log('End question received:', message.payload);
           if (message.payload) {
-            const { correctIdx, winnerUserId } = message.payload;
+            const {
+              correctIdxs, numericAnswer, numericTolerance, explanation, sourceUrl, winnerUserId, points
+            } = message.payload;
             
             // Immediately show results and force timer to end
             setQuizState(prev => ({
               ...prev,
-              correctIdx,
+              answer: { correctIdxs, numericAnswer, numericTolerance, explanation, sourceUrl },
               winnerUserId,
+              questionPoints: points ?? null,
               showResults: true,
               timerSeconds: 0 // Force timer to end immediately
             }));
+            setScores(prev => {
+              const next = { ...prev };
+              (points as QuestionPoints[] | undefined)?.forEach(({ userId, points }) => {
+                next[userId] = (next[userId] ?? 0) + points;
+              });
+              return next;
+            });
+          }
+          break;
+
+        case 'resumed':
+          console.log('Quiz resumed:', message.payload);
+          if (message.payload) {
+            const {
+              phase, questionIndex, question, expiresAt, hasAnswered, pausedRemainingMs,
+              correctIdxs, numericAnswer, numericTolerance, explanation, sourceUrl
+            } = message.payload;
+
+            failedAttemptsRef.current = 0;
+            setReconnecting(false);
+            setHostId(message.payload.hostId);
+            setPaused(pausedRemainingMs !== null && pausedRemainingMs !== undefined);
+            setScores(Object.fromEntries(
+              (message.payload.scores as PlayerScore[]).map(({ userId, score }) => [userId, score])
+            ));
+
+            if (phase === 'lobby') {
+              router.push(`/rooms/${roomId}`);
+              break;
+            }
+
+            if (phase === 'starting' || !question) {
+              setQuizState(prev => ({ ...prev, isWaiting: true }));
+              break;
+            }
+
+            // While paused expiresAt is stale; the timer shows the time left instead
+            const isPaused = pausedRemainingMs !== null && pausedRemainingMs !== undefined;
+            const serverEndTime = expiresAt && !isPaused ? new Date(expiresAt).getTime() : undefined;
+            const isRevealed = phase === 'reveal';
+            setDraftIdxs([]);
+            setDraftNumber('');
+
+            setQuizState({
+              currentQuestion: question,
+              questionIndex,
+              timerSeconds: isRevealed ? 0
+                : isPaused ? Math.ceil(pausedRemainingMs / 1000)
+                : serverEndTime ? Math.max(0, Math.ceil((serverEndTime - Date.now()) / 1000)) : 0,
+              hasAnswered,
+              selectedIdxs: [], // the pick itself isn't replayed, only that one was made
+              submittedNumber: null,
+              answer: isRevealed
+                ? { correctIdxs: correctIdxs ?? [], numericAnswer, numericTolerance, explanation, sourceUrl }
+                : null,
+              winnerUserId: null,
+              questionPoints: null,
+              isWaiting: false,
+              showResults: isRevealed,
+              standings: null,
+              matchId: null,
+              showStandings: false,
+              questionEndTime: isRevealed ? undefined : serverEndTime
+            });
           }
           break;
 
+        case 'participantKicked':
+          if (message.payload?.userId === currentUserIdRef.current) {
+            setError(message.payload.banned ? 'You have been banned from this room' : 'You have been removed from this room');
+            setTimeout(() => {
+              router.push('/rooms');
+            }, 3000);
+          }
+          break;
+
+        case 'roomLockChanged':
+        case 'participantDisconnected':
+        case 'participantReconnected':
+        case 'participantLeft':
+        case 'participantJoined':
+          break;
+
         case 'quizFinished':
           console.log('Quiz finished with standings:', message.payload);
           if (message.payload?.standings) {
             setQuizState(prev => ({
               ...prev,
               standings: message.payload.standings,
+              matchId: message.payload.matchId ?? null,
               showStandings: true
             }));
-            // Auto-redirect after showing standings for 8 seconds
-            setTimeout(() => {
-              router.push(`/rooms/${roomId}`);
-            }, 8000);
           } else {
             // Fallback if no standings provided
             router.push(`/rooms/${roomId}`);
           }
           break;
 
+        case 'quizAborted':
+          console.log('Quiz aborted:', message.payload);
+          setError(`Quiz aborted: ${message.payload?.reason || 'the quiz was interrupted'}`);
+          setTimeout(() => {
+            router.push(`/rooms/${roomId}`);
+          }, 3000);
+          break;
+
         case 'error':
           console.error('Quiz error:', message.payload?.message);
+          if (message.payload?.code === 409) {
+            setNotice(message.payload.message);
+            break;
+          }
           setError(message.payload?.message || 'An error occurred');
           break;
 
@@ -175,66 +426,97 @@ export default function QuizPage({ params }: QuizPageProps) {
     }
   }, [roomId, router]);
 
-  // Error handler
+  // Error handler - the close handler that follows takes care of reconnecting
   const handleError = useCallback((event: Event) => {
     console.error('WebSocket error in quiz:', event);
-    setError('Connection error occurred');
   }, []);
 
   // Close handler
   const handleClose = useCallback((event: CloseEvent) => {
     console.log('WebSocket closed in quiz:', event.code, event.reason);
-    setError('Connection lost');
+    if ((window as any).roomWebSocket === event.target) {
+      delete (window as any).roomWebSocket;
+    }
+
+    failedAttemptsRef.current += 1;
+    // 1008 is an auth or connection-limit rejection, retrying won't help
+    if (event.code === 1008 || failedAttemptsRef.current > MAX_RECONNECT_ATTEMPTS) {
+      setError('Connection lost');
+      setTimeout(() => {
+        router.push(`/rooms/${roomId}`);
+      }, 2000);
+      return;
+    }
+
+    setReconnecting(true);
     setTimeout(() => {
-      router.push(`/rooms/${roomId}`);
-    }, 2000);
+      setConnectionAttempt(prev => prev + 1);
+    }, RECONNECT_DELAY_MS * failedAttemptsRef.current);
   }, [roomId, router]);
 
   // Handle WebSocket connection and messages
   useEffect(() => {
     if (!roomId) return;
 
-    // Get the existing WebSocket connection from the window object
-    const ws = (window as any).roomWebSocket as WebSocket | undefined;
-    if (!ws || ws.readyState !== WebSocket.OPEN) {
-      console.error('WebSocket not available or not connected');
-      setError('Not connected to quiz room. Redirecting...');
-      setTimeout(() => {
-        router.push(`/rooms`);
-      }, 2000);
-      return;
-    }
+    let cancelled = false;
+    // Reuse the lobby's connection when it is still alive
+    let ws = (window as any).roomWebSocket as WebSocket | undefined;
+
+    const attach = (socket: WebSocket) => {
+      socket.addEventListener('message', handleMessage);
+      socket.addEventListener('error', handleError);
+      socket.addEventListener('close', handleClose);
+    };
 
-    console.log('Setting up WebSocket listeners for quiz');
+    // Refreshed tab or dropped socket: open a new connection and resume the quiz
+    const connect = async () => {
+      try {
+        const tokenResponse = await fetch('/api/auth/token');
+        if (!tokenResponse.ok) {
+          throw new Error('Failed to get auth token');
+        }
+        const { token } = await tokenResponse.json();
+        if (cancelled) return;
 
-    // Store handlers in refs for proper cleanup
-    messageHandlerRef.current = handleMessage;
-    errorHandlerRef.current = handleError;
-    closeHandlerRef.current = handleClose;
+        const socket = new WebSocket(`${process.env.NEXT_PUBLIC_WS_URL}?token=${token}`);
+        (window as any).roomWebSocket = socket;
+        ws = socket;
 
-    // Add event listeners
-    ws.addEventListener('message', handleMessage);
-    ws.addEventListener('error', handleError);
-    ws.addEventListener('close', handleClose);
+        socket.addEventListener('open', () => {
+          socket.send(JSON.stringify({ type: 'resume', payload: { roomId } }));
+        });
+        attach(socket);
+      } catch (err) {
+        console.error('Failed to reconnect to quiz:', err);
+        if (!cancelled) {
+          handleClose(new CloseEvent('close', { code: 1006, reason: 'Reconnect failed' }));
+        }
+      }
+    };
+
+    if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) {
+      console.log('Setting up WebSocket listeners for quiz');
+      attach(ws);
+    } else {
+      setReconnecting(true);
+      connect();
+    }
 
     return () => {
       // Clean up event listeners
       console.log('Cleaning up WebSocket listeners');
-      if (messageHandlerRef.current) {
-        ws.removeEventListener('message', messageHandlerRef.current);
-      }
-      if (errorHandlerRef.current) {
-        ws.removeEventListener('error', errorHandlerRef.current);
-      }
-      if (closeHandlerRef.current) {
-        ws.removeEventListener('close', closeHandlerRef.current);
+      cancelled = true;
+      if (ws) {
+        ws.removeEventListener('message', handleMessage);
+        ws.removeEventListener('error', handleError);
+        ws.removeEventListener('close', handleClose);
       }
     };
-  }, [roomId, router, handleMessage, handleError, handleClose]);
+  }, [roomId, connectionAttempt, handleMessage, handleError, handleClose]);
 
   // Synchronized timer effect - uses server timestamp for accurate timing
   useEffect(() => {
-    if (!quizState.currentQuestion) return;
+    if (!quizState.currentQuestion || paused) return;
 
     const timer = setInterval(() => {
       setQuizState(prev => {
@@ -260,7 +542,7 @@ export default function QuizPage({ params }: QuizPageProps) {
         }
         
         // Show results when we have correct answer AND time is up, or if already showing
-        const shouldShowResults = (newSeconds === 0 && prev.correctIdx !== null) || prev.showResults;
+        const shouldShowResults = (newSeconds === 0 && prev.answer !== null) || prev.showResults;
         
         return {
           ...prev,
@@ -271,11 +553,25 @@ export default function QuizPage({ params }: QuizPageProps) {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [quizState.currentQuestion, quizState.questionEndTime]);
+  }, [quizState.currentQuestion, quizState.questionEndTime, paused]);
+
+  // Pause, resume or end the quiz; the server broadcasts the outcome to every player
+  const sendHostAction = useCallback((type: 'pauseQuiz' | 'resumeQuiz' | 'abortQuiz') => {
+    if (type === 'abortQuiz' && !window.confirm('End the quiz for everyone? Nobody will be rated.')) return;
+
+    const ws = (window as any).roomWebSocket as WebSocket | undefined;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      setError('Not connected to quiz room');
+      return;
+    }
+
+    ws.send(JSON.stringify({ type, payload: { roomId } }));
+  }, [roomId]);
 
   // Handle answer submission
-  const handleAnswer = useCallback(async (selectedIdx: number) => {
-    if (quizState.hasAnswered || !quizState.currentQuestion || quizState.timerSeconds <= 0) {
+  // choiceIdxs for choice questions, numericAnswer for numeric ones
+  const handleAnswer = useCallback(async (choiceIdxs: number[], numericAnswer: number | null = null) => {
+    if (quizState.hasAnswered || !quizState.currentQuestion || quizState.timerSeconds <= 0 || paused) {
       console.log('Cannot submit answer - conditions not met:', {
         hasAnswered: quizState.hasAnswered,
         hasQuestion: !!quizState.currentQuestion,
@@ -292,8 +588,14 @@ export default function QuizPage({ params }: QuizPageProps) {
     }
 
     // Validate inputs before sending
-    if (typeof selectedIdx !== 'number' || selectedIdx < 0 || selectedIdx > 3) {
-      console.error('Invalid choice index:', selectedIdx);
+    const question = quizState.currentQuestion;
+    if (question.type === 'NUMERIC') {
+      if (numericAnswer === null || !Number.isFinite(numericAnswer)) {
+        console.error('Invalid numeric answer:', numericAnswer);
+        return;
+      }
+    } else if (choiceIdxs.length === 0 || choiceIdxs.some(idx => idx < 0 || idx >= question.options.length)) {
+      console.error('Invalid choice indexes:', choiceIdxs);
       return;
     }
 
@@ -308,7 +610,11 @@ export default function QuizPage({ params }: QuizPageProps) {
         payload: {
           roomId,
           questionIndex: quizState.questionIndex,
-          choiceIdx: selectedIdx
+          ...(question.type === 'NUMERIC'
+            ? { numericAnswer }
+            : question.type === 'MULTI_SELECT'
+              ? { choiceIdxs }
+              : { choiceIdx: choiceIdxs[0] })
         }
       };
 
@@ -319,14 +625,15 @@ export default function QuizPage({ params }: QuizPageProps) {
       setQuizState(prev => ({
         ...prev,
         hasAnswered: true,
-        selectedIdx
+        selectedIdxs: question.type === 'NUMERIC' ? [] : choiceIdxs,
+        submittedNumber: question.type === 'NUMERIC' ? numericAnswer : null
       }));
 
     } catch (err) {
       console.error('Failed to submit answer:', err);
       setError('Failed to submit answer');
     }
-  }, [quizState.hasAnswered, quizState.currentQuestion, quizState.timerSeconds, quizState.questionIndex, roomId]);
+  }, [quizState.hasAnswered, quizState.currentQuestion, quizState.timerSeconds, quizState.questionIndex, roomId, paused]);
 
   // Debug function to check WebSocket and timer state
   const debugWebSocketState = useCallback(() => {
@@ -346,6 +653,27 @@ export default function QuizPage({ params }: QuizPageProps) {
     }
   }, [roomId, quizState]);
 
+  // Collect each revealed question for the end-of-match review
+  useEffect(() => {
+    const { currentQuestion, questionIndex, answer } = quizState;
+    if (!currentQuestion || questionIndex === null || !answer) return;
+
+    setReview(prev => prev.some(item => item.questionIndex === questionIndex)
+      ? prev
+      : [...prev, { questionIndex, question: currentQuestion, answer }]);
+  }, [quizState]);
+
+  // Back to the lobby after the standings, unless there are explanations to read
+  const hasExplanations = review.some(item => item.answer.explanation || item.answer.sourceUrl);
+  useEffect(() => {
+    if (!quizState.showStandings || hasExplanations) return;
+
+    const timeout = setTimeout(() => {
+      router.push(`/rooms/${roomId}`);
+    }, 8000);
+    return () => clearTimeout(timeout);
+  }, [quizState.showStandings, hasExplanations, roomId, router]);
+
   // Call debug function when there are issues (to be removed in production)
   useEffect(() => {
     if (error) {
@@ -370,13 +698,54 @@ export default function QuizPage({ params }: QuizPageProps) {
     );
   }
 
+  const reconnectingBanner = reconnecting && (
+    <div className="fixed top-0 inset-x-0 bg-yellow-100 border-b border-yellow-300 text-yellow-800 text-center py-2 text-sm">
+      Connection lost. Reconnecting...
+    </div>
+  );
+
+  const isHost = hostId !== null && (session?.user as SessionUser | undefined)?.id === hostId.toString();
+
+  const hostControls = isHost && (
+    <div className="flex justify-center space-x-3">
+      <button
+        onClick={() => sendHostAction(paused ? 'resumeQuiz' : 'pauseQuiz')}
+        className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 text-sm font-medium"
+      >
+        {paused ? 'Resume Quiz' : 'Pause Quiz'}
+      </button>
+      <button
+        onClick={() => sendHostAction('abortQuiz')}
+        className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 text-sm font-medium"
+      >
+        End Quiz
+      </button>
+    </div>
+  );
+
+  const noticeBanner = notice && (
+    <div className="mb-6 p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg text-center text-sm">
+      {notice}
+    </div>
+  );
+
+  const pausedBanner = paused && (
+    <div className="mb-6 p-4 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-lg text-center font-medium">
+      The host paused the quiz
+    </div>
+  );
+
   if (quizState.isWaiting) {
     return (
       <div className="min-h-screen flex items-center justify-center">
+        {reconnectingBanner}
         <div className="text-center">
+          {pausedBanner}
+          {noticeBanner}
           <h2 className="text-2xl font-bold text-gray-800 mb-4">Quiz will start soon...</h2>
           <p className="text-gray-600">Please wait while we prepare your questions.</p>
           <div className="mt-4 animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          {hostControls && <div className="mt-6">{hostControls}</div>}
         </div>
       </div>
     );
@@ -401,6 +770,9 @@ export default function QuizPage({ params }: QuizPageProps) {
 
   const user = session?.user as SessionUser | undefined;
   const currentUserId = user?.id ? parseInt(user.id) : null;
+  const myPoints = quizState.questionPoints?.find(p => p.userId === currentUserId)?.points ?? null;
+  const myScore = currentUserId !== null ? scores[currentUserId] ?? 0 : 0;
+  const hasSubmission = quizState.selectedIdxs.length > 0 || quizState.submittedNumber !== null;
 
   // Show final standings screen
   if (quizState.showStandings && quizState.standings) {
@@ -456,6 +828,15 @@ export default function QuizPage({ params }: QuizPageProps) {
                       <div className="text-right">
                         <div className={`text-xl font-bold ${isCurrentUser ? 'text-blue-700' : 'text-gray-700'}`}>
                           {standing.newRating}
+                          <span className={`ml-2 text-sm font-semibold ${
+                            standing.ratingDelta > 0
+                              ? 'text-green-600'
+                              : standing.ratingDelta < 0
+                                ? 'text-red-600'
+                                : 'text-gray-500'
+                          }`}>
+                            ({standing.ratingDelta > 0 ? '+' : ''}{standing.ratingDelta})
+                          </span>
                         </div>
                         <div className="text-sm text-gray-500">New Rating</div>
                       </div>
@@ -465,17 +846,48 @@ export default function QuizPage({ params }: QuizPageProps) {
               })}
             </div>
 
+            {/* Review */}
+            {review.length > 0 && (
+              <div className="mb-8">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">Review</h2>
+                <div className="space-y-4">
+                  {review.map(({ questionIndex, question, answer }) => (
+                    <div key={questionIndex} className="p-4 rounded-lg border border-gray-200">
+                      <div className="flex text-gray-800">
+                        <span className="font-semibold mr-2">{questionIndex + 1}.</span>
+                        <RichText source={question.text} className="flex-1" />
+                      </div>
+                      <p className="mt-2 text-sm text-green-700 font-medium">
+                        Answer: {describeAnswer(question, answer)}
+                      </p>
+                      <AnswerExplanation answer={answer} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Footer */}
             <div className="text-center">
-              <p className="text-sm text-gray-500 mb-4">
-                Returning to lobby in a few seconds...
-              </p>
+              {!hasExplanations && (
+                <p className="text-sm text-gray-500 mb-4">
+                  Returning to lobby in a few seconds...
+                </p>
+              )}
               <button
                 onClick={() => router.push(`/rooms/${roomId}`)}
                 className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors duration-200"
               >
                 Back to Lobby
               </button>
+              {quizState.matchId && (
+                <Link
+                  href={`/matches/${quizState.matchId}`}
+                  className="ml-3 inline-block bg-white hover:bg-gray-50 text-blue-700 border border-blue-600 px-6 py-2 rounded-lg font-medium transition-colors duration-200"
+                >
+                  Full Match Review
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -485,69 +897,134 @@ export default function QuizPage({ params }: QuizPageProps) {
 
   return (
     <div className="min-h-screen p-8 bg-gray-50">
+      {reconnectingBanner}
       <div className="max-w-4xl mx-auto">
         <div className="bg-white rounded-lg shadow-lg p-6">
           {/* Header */}
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-bold text-gray-800">
-              Question {(quizState.questionIndex ?? 0) + 1}
-            </h2>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-800">
+                Question {(quizState.questionIndex ?? 0) + 1}
+              </h2>
+              <p className="text-sm text-gray-500">
+                {quizState.currentQuestion.category} · {DIFFICULTIES[quizState.currentQuestion.difficulty]} · Score: {myScore}
+              </p>
+            </div>
             <div className={`text-lg font-semibold px-4 py-2 rounded-full ${
               quizState.timerSeconds > 5 
                 ? 'bg-green-100 text-green-800' 
                 : 'bg-red-100 text-red-800'
             }`}>
-              Time: {quizState.timerSeconds}s
+              Time: {quizState.timerSeconds}s{paused && ' (paused)'}
             </div>
           </div>
 
+          {pausedBanner}
+          {noticeBanner}
+
           {/* Question */}
           <div className="mb-8">
-            <p className="text-xl text-gray-700 leading-relaxed">{quizState.currentQuestion.text}</p>
+            <RichText source={quizState.currentQuestion.text} className="text-xl text-gray-700 leading-relaxed" />
+            {quizState.currentQuestion.imageUrl && (
+              // eslint-disable-next-line @next/next/no-img-element -- served by our own authenticated route
+              <img
+                src={quizState.currentQuestion.imageUrl}
+                alt=""
+                className="mt-4 max-h-80 max-w-full rounded-lg border border-gray-200"
+              />
+            )}
           </div>
 
           {/* Options */}
-          <div className="space-y-4">
-            {quizState.currentQuestion.options.map((option, idx) => {
-              let buttonStyle = '';
-              
-              if (quizState.showResults) {
-                // Show results when showResults is true (after endQuestion message or timer ends)
-                if (idx === quizState.correctIdx) {
-                  buttonStyle = 'bg-green-100 border-2 border-green-500 text-green-800';
-                } else if (idx === quizState.selectedIdx && idx !== quizState.correctIdx) {
-                  buttonStyle = 'bg-red-100 border-2 border-red-500 text-red-800';
-                } else {
+          {quizState.currentQuestion.type === 'NUMERIC' ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (draftNumber.trim() !== '') handleAnswer([], Number(draftNumber));
+              }}
+              className="flex space-x-2"
+            >
+              <input
+                type="number"
+                step="any"
+                value={quizState.hasAnswered && quizState.submittedNumber !== null ? quizState.submittedNumber : draftNumber}
+                onChange={(e) => setDraftNumber(e.target.value)}
+                disabled={quizState.hasAnswered || quizState.timerSeconds === 0 || paused}
+                placeholder="Your answer"
+                className="flex-1 p-4 rounded-lg border-2 border-gray-200 focus:border-blue-500 disabled:bg-gray-100"
+              />
+              <button
+                type="submit"
+                disabled={quizState.hasAnswered || quizState.timerSeconds === 0 || paused || draftNumber.trim() === ''}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Submit
+              </button>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              {quizState.currentQuestion.type === 'MULTI_SELECT' && (
+                <p className="text-sm text-gray-500">Select every correct option, then submit.</p>
+              )}
+              {quizState.currentQuestion.options.map((option, idx) => {
+                const isMultiSelect = quizState.currentQuestion?.type === 'MULTI_SELECT';
+                const isCorrectOption = quizState.answer?.correctIdxs.includes(idx) ?? false;
+                const isSelected = quizState.selectedIdxs.includes(idx);
+                let buttonStyle = '';
+
+                if (quizState.showResults) {
+                  // Show results when showResults is true (after endQuestion message or timer ends)
+                  if (isCorrectOption) {
+                    buttonStyle = 'bg-green-100 border-2 border-green-500 text-green-800';
+                  } else if (isSelected) {
+                    buttonStyle = 'bg-red-100 border-2 border-red-500 text-red-800';
+                  } else {
+                    buttonStyle = 'bg-gray-100 border-2 border-gray-300 text-gray-600';
+                  }
+                } else if (quizState.hasAnswered) {
+                  // After answering but before results are shown - highlight selected options
+                  if (isSelected) {
+                    buttonStyle = 'bg-blue-100 border-2 border-blue-500 text-blue-800';
+                  } else {
+                    buttonStyle = 'bg-gray-100 border-2 border-gray-300 text-gray-600';
+                  }
+                } else if (quizState.timerSeconds === 0) {
+                  // Time's up but no answer submitted
                   buttonStyle = 'bg-gray-100 border-2 border-gray-300 text-gray-600';
-                }
-              } else if (quizState.hasAnswered) {
-                // After answering but before results are shown - highlight selected option
-                if (idx === quizState.selectedIdx) {
-                  buttonStyle = 'bg-blue-100 border-2 border-blue-500 text-blue-800';
+                } else if (isMultiSelect && draftIdxs.includes(idx)) {
+                  buttonStyle = 'bg-blue-50 border-2 border-blue-500 text-gray-800';
                 } else {
-                  buttonStyle = 'bg-gray-100 border-2 border-gray-300 text-gray-600';
+                  // Interactive state
+                  buttonStyle = 'bg-white border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 text-gray-800';
                 }
-              } else if (quizState.timerSeconds === 0) {
-                // Time's up but no answer submitted
-                buttonStyle = 'bg-gray-100 border-2 border-gray-300 text-gray-600';
-              } else {
-                // Interactive state
-                buttonStyle = 'bg-white border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 text-gray-800';
-              }
-
-              return (
+
+                return (
+                  <button
+                    key={idx}
+                    onClick={() =>
+                      isMultiSelect
+                        ? setDraftIdxs((prev) => (prev.includes(idx) ? prev.filter((i) => i !== idx) : [...prev, idx]))
+                        : handleAnswer([idx])
+                    }
+                    disabled={quizState.hasAnswered || quizState.timerSeconds === 0 || paused}
+                    className={`w-full p-4 text-left rounded-lg transition-all duration-200 disabled:cursor-not-allowed ${buttonStyle}`}
+                  >
+                    <span className="font-medium mr-3">{optionLabel(idx)}.</span>
+                    <RichText source={option} inline />
+                  </button>
+                );
+              })}
+              {quizState.currentQuestion.type === 'MULTI_SELECT' && !quizState.hasAnswered && (
                 <button
-                  key={idx}
-                  onClick={() => handleAnswer(idx)}
-                  disabled={quizState.hasAnswered || quizState.timerSeconds === 0}
-                  className={`w-full p-4 text-left rounded-lg transition-all duration-200 disabled:cursor-not-allowed ${buttonStyle}`}
+                  onClick={() => handleAnswer(draftIdxs)}
+                  disabled={quizState.timerSeconds === 0 || paused || draftIdxs.length === 0}
+                  className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <span className="font-medium mr-3">{String.fromCharCode(65 + idx)}.</span>
-                  {option}
+                  Submit {draftIdxs.length > 0 && `(${draftIdxs.length} selected)`}
                 </button>
-              );
-            })}
-          </div>
+              )}
+            </div>
+          )}
 
           {/* Status Messages */}
           {quizState.hasAnswered && !quizState.showResults && (
@@ -562,29 +1039,48 @@ export default function QuizPage({ params }: QuizPageProps) {
           {/* Results - Only shown when showResults is true */}
           {quizState.showResults && (
             <div className="mt-6 p-4 rounded-lg border-l-4 border-blue-500 bg-blue-50">
-              {quizState.correctIdx !== null && quizState.selectedIdx === quizState.correctIdx ? (
+              {quizState.answer && isSubmissionCorrect(quizState.currentQuestion, quizState) ? (
                 <p className="text-green-600 font-semibold flex items-center">
                   <span className="mr-2">✅</span>
                   Correct! 
                   {quizState.winnerUserId === currentUserId && ' You got it first!'}
                 </p>
-              ) : quizState.selectedIdx !== null ? (
+              ) : quizState.answer && hasSubmission ? (
                 <p className="text-red-600 font-semibold flex items-center">
                   <span className="mr-2">❌</span>
-                  Incorrect. The correct answer was: {String.fromCharCode(65 + (quizState.correctIdx ?? 0))}. {quizState.currentQuestion.options[quizState.correctIdx ?? 0]}
+                  {myPoints !== null && myPoints > 0 ? 'Partly correct.' : 'Incorrect.'} The correct answer was: {describeAnswer(quizState.currentQuestion, quizState.answer)}
+                </p>
+              ) : quizState.answer && quizState.hasAnswered ? (
+                <p className="text-gray-600 font-semibold flex items-center">
+                  The correct answer was: {describeAnswer(quizState.currentQuestion, quizState.answer)}
+                </p>
+              ) : quizState.answer ? (
+                <p className="text-gray-600 font-semibold flex items-center">
+                  <span className="mr-2">⏰</span>
+                  Time's up! The correct answer was: {describeAnswer(quizState.currentQuestion, quizState.answer)}
                 </p>
               ) : (
                 <p className="text-gray-600 font-semibold flex items-center">
                   <span className="mr-2">⏰</span>
-                  Time's up! The correct answer was: {String.fromCharCode(65 + (quizState.correctIdx ?? 0))}. {quizState.currentQuestion.options[quizState.correctIdx ?? 0]}
+                  Time's up! Waiting for the answer...
                 </p>
               )}
               
               {quizState.winnerUserId && quizState.winnerUserId !== currentUserId && (
                 <p className="text-gray-600 mt-2">Someone else got it first!</p>
               )}
+
+              {myPoints !== null && myPoints > 0 && (
+                <p className="text-blue-700 font-semibold mt-2">
+                  +{myPoints} {myPoints === 1 ? 'point' : 'points'}
+                </p>
+              )}
+
+              {quizState.answer && <AnswerExplanation answer={quizState.answer} />}
             </div>
           )}
+
+          {hostControls && <div className="mt-6">{hostControls}</div>}
         </div>
       </div>
     </div>
@@ -1,9 +1,16 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { CreateRoomFormData, ValidationErrors } from '@/types';
+import { CreateRoomFormData, DifficultyMix, QuestionCategory, ScoringMode, ValidationErrors } from '@/types';
+import {
+  DEFAULT_QUIZ_SETTINGS,
+  DIFFICULTY_MIXES,
+  MAX_ROOM_CATEGORIES,
+  QUIZ_SETTINGS_LIMITS,
+  SCORING_MODES,
+} from '@/lib/quizSettings';
 
 interface FormInputProps {
   id: string;
@@ -121,12 +128,19 @@ const PasswordInput = ({ value, onChange, error }: PasswordInputProps) => {
         </button>
       </FormInput>
       <p className="text-sm text-gray-500">
-        If set, players will need this password to join the room
+        If set, players will need this password (or the invite code) to join the room
       </p>
     </div>
   );
 };
 
+// Duration settings are edited in seconds but stored in milliseconds
+const DURATION_FIELDS: Array<{ name: 'questionTimeLimit' | 'quizStartDelay' | 'nextQuestionDelay'; label: string }> = [
+  { name: 'questionTimeLimit', label: 'Time per Question (seconds)' },
+  { name: 'quizStartDelay', label: 'Start Delay (seconds)' },
+  { name: 'nextQuestionDelay', label: 'Delay Between Questions (seconds)' },
+];
+
 export default function CreateRoomPage() {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -137,9 +151,43 @@ export default function CreateRoomPage() {
     name: '',
     maxPlayers: 4,
     password: '',
+    isPrivate: false,
+    scoringMode: DEFAULT_QUIZ_SETTINGS.scoringMode,
+    questionCount: DEFAULT_QUIZ_SETTINGS.questionCount,
+    questionTimeLimit: DEFAULT_QUIZ_SETTINGS.questionTimeLimit / 1000,
+    quizStartDelay: DEFAULT_QUIZ_SETTINGS.quizStartDelay / 1000,
+    nextQuestionDelay: DEFAULT_QUIZ_SETTINGS.nextQuestionDelay / 1000,
+    difficultyMix: DEFAULT_QUIZ_SETTINGS.difficultyMix,
+    shuffleOptionsPerPlayer: DEFAULT_QUIZ_SETTINGS.shuffleOptionsPerPlayer,
+    requireReady: DEFAULT_QUIZ_SETTINGS.requireReady,
+    readyTimeout: DEFAULT_QUIZ_SETTINGS.readyTimeout / 1000,
   });
+  // No categories selected means questions come from every category
+  const [availableCategories, setAvailableCategories] = useState<QuestionCategory[]>([]);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+
+  useEffect(() => {
+    async function fetchCategories() {
+      try {
+        const response = await fetch('/api/questions/categories');
+        if (!response.ok) throw new Error('Failed to fetch categories');
+        const data = await response.json();
+        setAvailableCategories(data.categories);
+      } catch (err) {
+        console.error('Error fetching categories:', err);
+      }
+    }
+
+    fetchCategories();
+  }, []);
+
+  const toggleCategory = (name: string) => {
+    setSelectedCategories(prev =>
+      prev.includes(name) ? prev.filter(c => c !== name) : [...prev, name].slice(0, MAX_ROOM_CATEGORIES)
+    );
+  };
 
-  const validateField = (name: keyof CreateRoomFormData, value: string | number): string | undefined => {
+  const validateField = (name: keyof CreateRoomFormData, value: string | number | boolean): string | undefined => {
     switch (name) {
       case 'name':
         if (!value.toString().trim()) return 'Room name is required';
@@ -153,6 +201,22 @@ export default function CreateRoomPage() {
         if (value && value.toString().length < 4)
           return 'Password must be at least 4 characters if provided';
         break;
+      case 'questionCount': {
+        const { min, max } = QUIZ_SETTINGS_LIMITS.questionCount;
+        if (typeof value !== 'number' || isNaN(value) || value < min || value > max)
+          return `Number of questions must be between ${min} and ${max}`;
+        break;
+      }
+      case 'questionTimeLimit':
+      case 'quizStartDelay':
+      case 'nextQuestionDelay':
+      case 'readyTimeout': {
+        const min = QUIZ_SETTINGS_LIMITS[name].min / 1000;
+        const max = QUIZ_SETTINGS_LIMITS[name].max / 1000;
+        if (typeof value !== 'number' || isNaN(value) || value < min || value > max)
+          return `Must be between ${min} and ${max} seconds`;
+        break;
+      }
     }
   };
 
@@ -192,6 +256,17 @@ export default function CreateRoomPage() {
           name: formData.name.trim(),
           maxPlayers: formData.maxPlayers,
           password: formData.password.trim() || undefined,
+          isPrivate: formData.isPrivate,
+          scoringMode: formData.scoringMode,
+          questionCount: formData.questionCount,
+          questionTimeLimit: formData.questionTimeLimit * 1000,
+          quizStartDelay: formData.quizStartDelay * 1000,
+          nextQuestionDelay: formData.nextQuestionDelay * 1000,
+          categories: selectedCategories,
+          difficultyMix: formData.difficultyMix,
+          shuffleOptionsPerPlayer: formData.shuffleOptionsPerPlayer,
+          requireReady: formData.requireReady,
+          readyTimeout: formData.readyTimeout * 1000,
         }),
       });
 
@@ -261,6 +336,153 @@ export default function CreateRoomPage() {
               error={validationErrors.password}
             />
 
+            <label className="flex items-start space-x-2">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={formData.isPrivate}
+                onChange={(e) => setFormData(prev => ({ ...prev, isPrivate: e.target.checked }))}
+              />
+              <span className="text-sm text-gray-700">
+                Private room
+                <span className="block text-gray-500">Hidden from the room list; players join with the invite code</span>
+              </span>
+            </label>
+
+            <fieldset className="space-y-4">
+              <legend className="text-sm font-semibold text-gray-900">Quiz Settings</legend>
+
+              <div className="space-y-1">
+                <label htmlFor="scoringMode" className="block text-sm font-medium text-gray-700">
+                  Scoring Mode
+                </label>
+                <select
+                  id="scoringMode"
+                  value={formData.scoringMode}
+                  onChange={(e) => setFormData(prev => ({ ...prev, scoringMode: e.target.value as ScoringMode }))}
+                  className="mt-1 block w-full rounded-md shadow-sm border border-gray-300 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 px-4 py-2"
+                >
+                  {(Object.keys(SCORING_MODES) as ScoringMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {SCORING_MODES[mode]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <FormInput
+                id="questionCount"
+                label="Number of Questions"
+                type="number"
+                value={formData.questionCount}
+                onChange={(value) => handleFieldChange('questionCount', value)}
+                error={validationErrors.questionCount}
+                required
+                min={QUIZ_SETTINGS_LIMITS.questionCount.min}
+                max={QUIZ_SETTINGS_LIMITS.questionCount.max}
+              />
+
+              <div className="space-y-1">
+                <label htmlFor="difficultyMix" className="block text-sm font-medium text-gray-700">
+                  Difficulty
+                </label>
+                <select
+                  id="difficultyMix"
+                  value={formData.difficultyMix}
+                  onChange={(e) => setFormData(prev => ({ ...prev, difficultyMix: e.target.value as DifficultyMix }))}
+                  className="mt-1 block w-full rounded-md shadow-sm border border-gray-300 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 px-4 py-2"
+                >
+                  {(Object.keys(DIFFICULTY_MIXES) as DifficultyMix[]).map((mix) => (
+                    <option key={mix} value={mix}>
+                      {DIFFICULTY_MIXES[mix]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {availableCategories.length > 0 && (
+                <div className="space-y-1">
+                  <span className="block text-sm font-medium text-gray-700">Categories</span>
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {availableCategories.map(({ name, questionCount }) => (
+                      <label
+                        key={name}
+                        className={`px-3 py-1 rounded-full border text-sm cursor-pointer ${
+                          selectedCategories.includes(name)
+                            ? 'bg-indigo-600 border-indigo-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          className="sr-only"
+                          checked={selectedCategories.includes(name)}
+                          onChange={() => toggleCategory(name)}
+                        />
+                        {name} ({questionCount})
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-sm text-gray-500">Leave all unselected to draw from every category</p>
+                </div>
+              )}
+
+              {DURATION_FIELDS.map(({ name, label }) => (
+                <FormInput
+                  key={name}
+                  id={name}
+                  label={label}
+                  type="number"
+                  value={formData[name]}
+                  onChange={(value) => handleFieldChange(name, value)}
+                  error={validationErrors[name]}
+                  required
+                  min={QUIZ_SETTINGS_LIMITS[name].min / 1000}
+                  max={QUIZ_SETTINGS_LIMITS[name].max / 1000}
+                />
+              ))}
+
+              <label className="flex items-start space-x-2">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={formData.shuffleOptionsPerPlayer}
+                  onChange={(e) => setFormData(prev => ({ ...prev, shuffleOptionsPerPlayer: e.target.checked }))}
+                />
+                <span className="text-sm text-gray-700">
+                  Shuffle answer options separately for each player
+                  <span className="block text-gray-500">Otherwise everyone sees the same shuffled order</span>
+                </span>
+              </label>
+
+              <label className="flex items-start space-x-2">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={formData.requireReady}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requireReady: e.target.checked }))}
+                />
+                <span className="text-sm text-gray-700">
+                  Wait for every player to be ready
+                  <span className="block text-gray-500">The quiz can start anyway once the ready check times out</span>
+                </span>
+              </label>
+
+              {formData.requireReady && (
+                <FormInput
+                  id="readyTimeout"
+                  label="Ready Check Timeout (seconds)"
+                  type="number"
+                  value={formData.readyTimeout}
+                  onChange={(value) => handleFieldChange('readyTimeout', value)}
+                  error={validationErrors.readyTimeout}
+                  required
+                  min={QUIZ_SETTINGS_LIMITS.readyTimeout.min / 1000}
+                  max={QUIZ_SETTINGS_LIMITS.readyTimeout.max / 1000}
+                />
+              )}
+            </fieldset>
+
             <button
               type="submit"
               disabled={isSubmitting || hasErrors}
@@ -4,11 +4,12 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { PrismaClient } from '@repo/db';
+import JoinByCodeForm from '@/components/JoinByCodeForm';
 
 const prisma = new PrismaClient();
 
 interface RoomWithParticipants extends Room {
-  roomParticipants: Array<{ id: string }>;
+  roomParticipants: Array<{ id: number }>;
   currentPlayers: number;
 }
 
@@ -16,7 +17,8 @@ async function getRooms(): Promise<RoomWithParticipants[]> {
   try {
     const rooms = await prisma.room.findMany({
       where: {
-        isActive: true
+        isActive: true,
+        isPrivate: false
       },
       include: {
         roomParticipants: true
@@ -26,9 +28,29 @@ async function getRooms(): Promise<RoomWithParticipants[]> {
       }
     });
 
-    return rooms.map((room: any) => ({
-      ...room,
-      currentPlayers: room.roomParticipants.length
+    // The same public shape as GET /api/rooms: the password hash and invite code never leave the server
+    return rooms.map((room) => ({
+      id: room.id,
+      name: room.name,
+      hostId: room.hostId,
+      isActive: room.isActive,
+      maxPlayers: room.maxPlayers,
+      roomParticipants: room.roomParticipants,
+      currentPlayers: room.roomParticipants.length,
+      requiresPassword: !!room.password,
+      isPrivate: room.isPrivate,
+      isLocked: room.isLocked,
+      scoringMode: room.scoringMode,
+      questionCount: room.questionCount,
+      questionTimeLimit: room.questionTimeLimit,
+      quizStartDelay: room.quizStartDelay,
+      nextQuestionDelay: room.nextQuestionDelay,
+      categories: room.categories,
+      difficultyMix: room.difficultyMix,
+      shuffleOptionsPerPlayer: room.shuffleOptionsPerPlayer,
+      requireReady: room.requireReady,
+      readyTimeout: room.readyTimeout,
+      createdAt: room.createdAt.toISOString()
     }));
   } catch (error) {
     console.error('Error fetching rooms:', error);
@@ -51,14 +73,24 @@ export default async function RoomsPage() {
         <div className="px-4 py-6 sm:px-0">
           <div className="flex justify-between items-center mb-8">
             <h1 className="text-3xl font-bold text-gray-900">Available Rooms</h1>
-            <Link
-              href="/rooms/create"
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-            >
-              Create New Room
-            </Link>
+            <div className="flex items-center space-x-4">
+              <Link href={`/profile/${session.user.id}`} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                My Profile
+              </Link>
+              <Link href="/leaderboard" className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                Leaderboard
+              </Link>
+              <Link
+                href="/rooms/create"
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                Create New Room
+              </Link>
+            </div>
           </div>
 
+          <JoinByCodeForm />
+
           {/* Rooms List */}
           {rooms.length === 0 ? (
             <div className="text-center py-4 text-gray-500">No active rooms found</div>
@@ -74,13 +106,16 @@ export default async function RoomsPage() {
                     key={room.id}
                     className="bg-white shadow rounded-lg p-6 hover:shadow-md transition-shadow"
                   >
-                    <h3 className="text-lg font-semibold text-gray-900 mb-2">{room.name}</h3>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                      {room.name}
+                      {room.requiresPassword && <span className="ml-2" title="Password required">🔒</span>}
+                    </h3>
                     <div className="space-y-2 text-sm text-gray-500">
                       <p>Host: {room.hostId}</p>
                       <p>Players: {currentPlayers} / {maxPlayers}</p>
                       <p>Created: {new Date(room.createdAt).toLocaleString()}</p>
                     </div>
-                    {room.isActive && !isFull ? (
+                    {room.isActive && !isFull && !room.isLocked ? (
                       <Link
                         href={`/rooms/${room.id}`}
                         className="mt-4 block w-full text-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -92,7 +127,7 @@ export default async function RoomsPage() {
                         disabled
                         className="mt-4 block w-full text-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gray-400 cursor-not-allowed"
                       >
-                        {!room.isActive ? 'Inactive' : 'Room Full'}
+                        {!room.isActive ? 'Inactive' : room.isLocked ? 'Locked' : 'Room Full'}
                       </button>
                     )}
                   </div>
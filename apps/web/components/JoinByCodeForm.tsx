@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+// Private rooms are not listed, so players get in with the code the host shares
+export default function JoinByCodeForm() {
+  const router = useRouter();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/rooms/invite/${encodeURIComponent(code.trim())}`);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Invalid invite code');
+      }
+      router.push(`/rooms/${body.roomId}?invite=${encodeURIComponent(body.inviteCode)}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-8 flex flex-wrap items-center gap-2">
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="Invite code"
+        maxLength={20}
+        className="rounded-md border border-gray-300 px-3 py-2 uppercase tracking-widest"
+      />
+      <button
+        type="submit"
+        disabled={submitting || !code.trim()}
+        className="px-4 py-2 rounded-md text-sm font-medium text-indigo-600 border border-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+      >
+        Join with Code
+      </button>
+      {error && <p className="w-full text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
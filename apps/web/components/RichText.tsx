@@ -0,0 +1,21 @@
+import { Markdown } from '@repo/ui/markdown';
+
+const classNames = {
+  paragraph: 'mb-3 last:mb-0',
+  code: 'px-1 py-0.5 rounded bg-gray-100 font-mono text-[0.9em] text-gray-800',
+  codeBlock: 'mb-3 last:mb-0 p-4 rounded-lg bg-gray-900 text-gray-100 font-mono text-sm overflow-x-auto whitespace-pre',
+  link: 'text-blue-600 underline hover:text-blue-800',
+};
+
+// Question and option text: markdown rendered as React elements, never as raw HTML
+export default function RichText({
+  source,
+  inline = false,
+  className,
+}: {
+  source: string;
+  inline?: boolean;
+  className?: string;
+}) {
+  return <Markdown source={source} inline={inline} className={className} classNames={classNames} />;
+}
@@ -0,0 +1,67 @@
+// Minimal RFC 4180 reader/writer: comma separated, fields optionally wrapped in
+// double quotes, embedded quotes doubled, CRLF or LF line endings
+
+export function parseCsv(input: string): string[][] {
+    const text = input.startsWith('\uFEFF') ? input.slice(1) : input;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Blank lines carry no record
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+// Spreadsheets run a text cell starting with one of these as a formula. Such cells are written
+// with a leading quote; cells already starting with quotes get one more, so reading strips exactly one.
+const FORMULA_CELL = /^'*[=+\-@\t\r]/;
+
+function escapeCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Numbers are written as is, so negative numbers stay numbers
+export function toCsvRow(values: Array<string | number>): string {
+    return values
+        .map(value => typeof value === 'string' && FORMULA_CELL.test(value) ? `'${value}` : String(value))
+        .map(escapeCsvField)
+        .join(',') + '\r\n';
+}
+
+// Undoes the formula guard of toCsvRow on a read cell
+export function unguardCsvFormula(value: string): string {
+    return value.startsWith("'") && FORMULA_CELL.test(value) ? value.slice(1) : value;
+}
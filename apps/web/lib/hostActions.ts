@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+
+const WS_SERVER_URL = process.env.WS_SERVER_URL ?? process.env.NEXT_PUBLIC_WS_URL?.replace(/^ws/, "http");
+
+export type HostAction =
+    | { type: "kickParticipant"; payload: { roomId: string; userId: number } }
+    | { type: "banParticipant"; payload: { roomId: string; userId: number } }
+    | { type: "transferHost"; payload: { roomId: string; userId: number } }
+    | { type: "lockRoom"; payload: { roomId: string; locked: boolean } };
+
+// Host controls run on the ws-server, which broadcasts them to the room; the REST
+// routes pass the caller's session token along so it can check they are the host
+export async function forwardHostAction(request: NextRequest, action: HostAction): Promise<NextResponse> {
+    const token = await getToken({ req: request, raw: true });
+    if (!token) {
+        return NextResponse.json(
+            { error: { code: 401, message: "Unauthorized: missing or invalid token" } },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const response = await fetch(`${WS_SERVER_URL}/host-actions`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                Authorization: `Bearer ${token}`
+            },
+            body: JSON.stringify(action)
+        });
+        const body = await response.json();
+        return NextResponse.json(body, { status: response.status });
+    } catch (error) {
+        console.error("Error forwarding host action:", error);
+        return NextResponse.json(
+            { error: { code: 502, message: "Bad Gateway: realtime server unavailable" } },
+            { status: 502 }
+        );
+    }
+}
+
+// Parses a user id from a route param or request body field
+export function parseUserId(value: unknown): number | null {
+    const userId = typeof value === "string" ? parseInt(value) : value;
+    return typeof userId === "number" && Number.isInteger(userId) ? userId : null;
+}
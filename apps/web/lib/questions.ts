@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { Difficulty, Question, QuestionType } from '@/types';
+import { UPLOAD_URL_PATTERN } from '@/lib/uploads';
+import { unguardCsvFormula } from '@/lib/csv';
+
+export const DIFFICULTIES: Record<Difficulty, string> = {
+    EASY: 'Easy',
+    MEDIUM: 'Medium',
+    HARD: 'Hard'
+};
+
+export const DEFAULT_CATEGORY = 'General';
+export const MIN_QUESTION_OPTIONS = 2;
+export const MAX_QUESTION_OPTIONS = 6;
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export const QUESTION_TYPES: Record<QuestionType, string> = {
+    SINGLE_CHOICE: 'Single choice',
+    MULTI_SELECT: 'Multiple correct options',
+    NUMERIC: 'Numeric answer'
+};
+
+const QuestionBaseSchema = z.object({
+    // Markdown; rendered without HTML on the quiz page
+    text: z.string().trim().min(1, 'Question text is required'),
+    imageUrl: z.string().regex(UPLOAD_URL_PATTERN, 'Images must be uploaded through /api/uploads')
+        .nullable()
+        .default(null),
+    // Shown with the revealed answer; blank means none
+    explanation: z.string().trim().max(2000).nullable().default(null)
+        .transform(explanation => explanation || null),
+    sourceUrl: z.string().trim().url().max(500)
+        .refine(url => /^https?:\/\//i.test(url), 'Source links must be http(s) URLs')
+        .nullable()
+        .default(null),
+    category: z.string().trim().min(1).max(50).default(DEFAULT_CATEGORY),
+    // Stored lowercase and de-duplicated so filtering by tag is exact
+    tags: z.array(z.string().trim().toLowerCase().min(1).max(30)).max(10)
+        .default([])
+        .transform(tags => Array.from(new Set(tags))),
+    difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']).default('MEDIUM')
+});
+
+const OptionsSchema = z.array(z.string().trim().min(1, 'Options cannot be empty'))
+    .min(MIN_QUESTION_OPTIONS, `A question needs at least ${MIN_QUESTION_OPTIONS} options`)
+    .max(MAX_QUESTION_OPTIONS, `A question can have at most ${MAX_QUESTION_OPTIONS} options`);
+
+const QuestionVariantSchema = z.discriminatedUnion('type', [
+    QuestionBaseSchema.extend({
+        type: z.literal('SINGLE_CHOICE'),
+        options: OptionsSchema,
+        correctIdx: z.number().int().min(0)
+    }),
+    QuestionBaseSchema.extend({
+        type: z.literal('MULTI_SELECT'),
+        options: OptionsSchema,
+        correctIdxs: z.array(z.number().int().min(0)).min(1, 'Mark at least one correct option')
+            .transform(idxs => Array.from(new Set(idxs)).sort((a, b) => a - b)),
+        partialCredit: z.boolean().default(false)
+    }),
+    QuestionBaseSchema.extend({
+        type: z.literal('NUMERIC'),
+        numericAnswer: z.number().finite(),
+        numericTolerance: z.number().finite().min(0).default(0)
+    })
+]);
+
+// A question as stored, minus its id
+export type QuestionInput = Omit<Question, 'id'>;
+
+// Body of POST /api/questions and PUT /api/questions/[questionId]. `type` defaults to
+// single choice; the result is the full Question row, with unused fields blanked.
+export const QuestionInputSchema = z.preprocess(
+    body => body && typeof body === 'object' && (body as { type?: unknown }).type === undefined
+        ? { ...body, type: 'SINGLE_CHOICE' }
+        : body,
+    QuestionVariantSchema
+).superRefine((question, ctx) => {
+    const idxs = question.type === 'SINGLE_CHOICE' ? [question.correctIdx]
+        : question.type === 'MULTI_SELECT' ? question.correctIdxs
+        : [];
+    if (question.type !== 'NUMERIC' && idxs.some(idx => idx >= question.options.length)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Correct answers must point at the options',
+            path: [question.type === 'SINGLE_CHOICE' ? 'correctIdx' : 'correctIdxs']
+        });
+    }
+}).transform((question): QuestionInput => {
+    const { text, imageUrl, explanation, sourceUrl, category, tags, difficulty, type } = question;
+    const base = { type, text, imageUrl, explanation, sourceUrl, category, tags, difficulty };
+
+    switch (question.type) {
+        case 'SINGLE_CHOICE':
+            return {
+                ...base,
+                options: question.options,
+                correctIdx: question.correctIdx,
+                correctIdxs: [question.correctIdx],
+                partialCredit: false,
+                numericAnswer: null,
+                numericTolerance: null
+            };
+        case 'MULTI_SELECT':
+            return {
+                ...base,
+                options: question.options,
+                correctIdx: question.correctIdxs[0]!,
+                correctIdxs: question.correctIdxs,
+                partialCredit: question.partialCredit,
+                numericAnswer: null,
+                numericTolerance: null
+            };
+        case 'NUMERIC':
+            return {
+                ...base,
+                options: [],
+                correctIdx: 0,
+                correctIdxs: [],
+                partialCredit: false,
+                numericAnswer: question.numericAnswer,
+                numericTolerance: question.numericTolerance
+            };
+    }
+});
+
+
+// Validates a question body, returning the first problem as a readable message
+export function parseQuestionInput(body: unknown): { data?: QuestionInput; error?: string } {
+    const result = QuestionInputSchema.safeParse(body);
+    if (!result.success) {
+        const issue = result.error.issues[0];
+        const field = issue?.path.join('.');
+        return { error: `Invalid question format: ${field ? `${field}: ` : ''}${issue?.message ?? 'invalid input'}` };
+    }
+    return { data: result.data };
+}
+
+// CSV layout shared by import and export; tags and correctIdxs are separated by "|"
+export const QUESTION_CSV_OPTION_COLUMNS = MAX_QUESTION_OPTIONS;
+export const QUESTION_CSV_HEADER = [
+    'text',
+    'imageUrl',
+    'type',
+    ...Array.from({ length: QUESTION_CSV_OPTION_COLUMNS }, (_, i) => `option${i + 1}`),
+    'correctIdx',
+    'correctIdxs',
+    'partialCredit',
+    'numericAnswer',
+    'numericTolerance',
+    'explanation',
+    'sourceUrl',
+    'category',
+    'tags',
+    'difficulty'
+];
+
+export function questionToCsvValues(question: QuestionInput): Array<string | number> {
+    const options = Array.from({ length: QUESTION_CSV_OPTION_COLUMNS }, (_, i) => question.options[i] ?? '');
+    return [
+        question.text,
+        question.imageUrl ?? '',
+        question.type,
+        ...options,
+        question.correctIdx,
+        question.correctIdxs.join('|'),
+        String(question.partialCredit),
+        question.numericAnswer ?? '',
+        question.numericTolerance ?? '',
+        question.explanation ?? '',
+        question.sourceUrl ?? '',
+        question.category,
+        question.tags.join('|'),
+        question.difficulty
+    ];
+}
+
+// Numbers are converted; anything else is passed through for the schema to reject
+const csvNumber = (value: string) => value === '' ? undefined : isNaN(Number(value)) ? value : Number(value);
+
+// Turns a CSV record into a question body for parseQuestionInput; blank cells fall back to defaults
+export function csvRecordToQuestionInput(header: string[], cells: string[]): Record<string, unknown> {
+    const columns = header.map(column => column.trim().toLowerCase());
+    const cell = (column: string) => unguardCsvFormula(cells[columns.indexOf(column)]?.trim() ?? '');
+    const partialCredit = cell('partialcredit').toLowerCase();
+
+    return {
+        text: cell('text'),
+        imageUrl: cell('imageurl') || undefined,
+        type: cell('type').toUpperCase() || undefined,
+        options: columns
+            .map((column, i) => /^option\d+$/.test(column) ? unguardCsvFormula(cells[i]?.trim() ?? '') : '')
+            .filter(option => option !== ''),
+        correctIdx: csvNumber(cell('correctidx')),
+        correctIdxs: cell('correctidxs').split('|').filter(Boolean).map(idx => csvNumber(idx.trim())),
+        partialCredit: partialCredit === '' ? undefined : ['true', '1', 'yes'].includes(partialCredit),
+        numericAnswer: csvNumber(cell('numericanswer')),
+        numericTolerance: csvNumber(cell('numerictolerance')),
+        explanation: cell('explanation') || undefined,
+        sourceUrl: cell('sourceurl') || undefined,
+        category: cell('category') || undefined,
+        tags: cell('tags').split('|').map(tag => tag.trim()).filter(Boolean),
+        difficulty: cell('difficulty').toUpperCase() || undefined
+    };
+}
@@ -0,0 +1,105 @@
+import { DifficultyMix, QuizSettings, ScoringMode } from '@/types';
+
+type NumericQuizSetting = Exclude<keyof QuizSettings, 'scoringMode' | 'categories' | 'difficultyMix' | 'shuffleOptionsPerPlayer' | 'requireReady'>;
+
+export const SCORING_MODES: Record<ScoringMode, string> = {
+    FIRST_CORRECT: 'First correct answer wins the point',
+    SPEED: 'Every correct answer scores, faster answers score more'
+};
+
+export const DIFFICULTY_MIXES: Record<DifficultyMix, string> = {
+    ANY: 'Any difficulty',
+    EASY: 'Easy only',
+    MEDIUM: 'Medium only',
+    HARD: 'Hard only',
+    BALANCED: 'Balanced mix of easy, medium and hard'
+};
+
+export const MAX_ROOM_CATEGORIES = 20;
+
+// Defaults mirror the Room model defaults; durations are in milliseconds
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+    scoringMode: 'FIRST_CORRECT',
+    questionCount: 10,
+    questionTimeLimit: 10000,
+    quizStartDelay: 5000,
+    nextQuestionDelay: 3000,
+    categories: [],
+    difficultyMix: 'ANY',
+    shuffleOptionsPerPlayer: false,
+    requireReady: false,
+    readyTimeout: 30000
+};
+
+export const QUIZ_SETTINGS_LIMITS: Record<NumericQuizSetting, { min: number; max: number }> = {
+    questionCount: { min: 1, max: 50 },
+    questionTimeLimit: { min: 5000, max: 120000 },
+    quizStartDelay: { min: 0, max: 30000 },
+    nextQuestionDelay: { min: 1000, max: 30000 },
+    readyTimeout: { min: 5000, max: 120000 }
+};
+
+const LABELS: Record<NumericQuizSetting, string> = {
+    questionCount: 'Question count',
+    questionTimeLimit: 'Question time limit',
+    quizStartDelay: 'Quiz start delay',
+    nextQuestionDelay: 'Next question delay',
+    readyTimeout: 'Ready check timeout'
+};
+
+export function validateQuizSetting(name: NumericQuizSetting, value: unknown): string | undefined {
+    const { min, max } = QUIZ_SETTINGS_LIMITS[name];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        return `${LABELS[name]} must be an integer between ${min} and ${max}`;
+    }
+}
+
+// Fills in defaults for missing fields and returns the first validation error, if any
+export function parseQuizSettings(input: Partial<Record<keyof QuizSettings, unknown>>): {
+    settings: QuizSettings;
+    error?: string;
+} {
+    const settings = { ...DEFAULT_QUIZ_SETTINGS };
+
+    const scoringMode = input.scoringMode ?? DEFAULT_QUIZ_SETTINGS.scoringMode;
+    if (typeof scoringMode !== 'string' || !Object.keys(SCORING_MODES).includes(scoringMode)) {
+        return { settings, error: `Scoring mode must be one of ${Object.keys(SCORING_MODES).join(', ')}` };
+    }
+    settings.scoringMode = scoringMode as ScoringMode;
+
+    const difficultyMix = input.difficultyMix ?? DEFAULT_QUIZ_SETTINGS.difficultyMix;
+    if (typeof difficultyMix !== 'string' || !Object.keys(DIFFICULTY_MIXES).includes(difficultyMix)) {
+        return { settings, error: `Difficulty mix must be one of ${Object.keys(DIFFICULTY_MIXES).join(', ')}` };
+    }
+    settings.difficultyMix = difficultyMix as DifficultyMix;
+
+    const categories = input.categories ?? DEFAULT_QUIZ_SETTINGS.categories;
+    if (!Array.isArray(categories) || categories.length > MAX_ROOM_CATEGORIES ||
+        categories.some(category => typeof category !== 'string' || !category.trim())) {
+        return { settings, error: `Categories must be a list of at most ${MAX_ROOM_CATEGORIES} category names` };
+    }
+    settings.categories = Array.from(new Set(categories.map((category: string) => category.trim())));
+
+    const shuffleOptionsPerPlayer = input.shuffleOptionsPerPlayer ?? DEFAULT_QUIZ_SETTINGS.shuffleOptionsPerPlayer;
+    if (typeof shuffleOptionsPerPlayer !== 'boolean') {
+        return { settings, error: 'Shuffle options per player must be true or false' };
+    }
+    settings.shuffleOptionsPerPlayer = shuffleOptionsPerPlayer;
+
+    const requireReady = input.requireReady ?? DEFAULT_QUIZ_SETTINGS.requireReady;
+    if (typeof requireReady !== 'boolean') {
+        return { settings, error: 'Require ready must be true or false' };
+    }
+    settings.requireReady = requireReady;
+
+    for (const name of Object.keys(QUIZ_SETTINGS_LIMITS) as NumericQuizSetting[]) {
+        const value = input[name] ?? DEFAULT_QUIZ_SETTINGS[name];
+        const error = validateQuizSetting(name, value);
+        if (error) {
+            return { settings, error };
+        }
+        settings[name] = value as number;
+    }
+
+    return { settings };
+}
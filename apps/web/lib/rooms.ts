@@ -0,0 +1,15 @@
+import { randomInt } from 'crypto';
+
+// No 0/O or 1/I, so codes survive being read out loud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const INVITE_CODE_LENGTH = 8;
+export const MIN_ROOM_PASSWORD_LENGTH = 4;
+
+export function generateInviteCode(): string {
+    return Array.from({ length: INVITE_CODE_LENGTH }, () =>
+        INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]
+    ).join('');
+}
+
+// Codes are matched case-insensitively and may be pasted with spaces or dashes
+export const normalizeInviteCode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
@@ -0,0 +1,4 @@
+// Percentage rounded to one decimal place, 0 when there is nothing to divide by
+export function percentage(part: number, whole: number): number {
+    return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
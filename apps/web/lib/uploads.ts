@@ -0,0 +1,31 @@
+import path from 'path';
+
+// Question images live on local disk and are served back through /api/uploads
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR ?? path.join(process.cwd(), 'uploads'));
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+export const UPLOAD_CONTENT_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp'
+};
+
+// Stored names are generated by us, so anything else in a URL is rejected outright
+export const UPLOAD_FILENAME_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.(png|jpg|gif|webp)$/;
+export const UPLOAD_URL_PATTERN = new RegExp(`^/api/uploads/${UPLOAD_FILENAME_PATTERN.source.slice(1)}`);
+
+export const uploadUrl = (filename: string) => `/api/uploads/${filename}`;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+// Identifies the image format from the file's magic bytes rather than trusting the
+// client's declared type; returns the extension to store it under
+export function detectImageType(bytes: Uint8Array): string | null {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpg';
+    if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return 'gif';
+    if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'webp';
+    return null;
+}
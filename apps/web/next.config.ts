@@ -2,6 +2,7 @@ import type { NextConfig } from 'next'
 
 const config: NextConfig = {
   reactStrictMode: false,
+  transpilePackages: ['@repo/ui'],
 }
 
 export default config 
\ No newline at end of file
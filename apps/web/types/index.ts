@@ -5,13 +5,86 @@ export interface User {
   isAdmin: boolean;
 }
 
-export interface Room {
+export type ScoringMode = 'FIRST_CORRECT' | 'SPEED';
+
+export type Difficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+export type DifficultyMix = 'ANY' | Difficulty | 'BALANCED';
+
+// Per-room quiz settings, durations in milliseconds
+export interface QuizSettings {
+  scoringMode: ScoringMode;
+  questionCount: number;
+  questionTimeLimit: number;
+  quizStartDelay: number;
+  nextQuestionDelay: number;
+  categories: string[]; // empty means every category
+  difficultyMix: DifficultyMix;
+  shuffleOptionsPerPlayer: boolean; // otherwise one shuffled option order per match
+  requireReady: boolean; // the host can't start until every player is ready
+  readyTimeout: number; // or until this long after the host first tried
+}
+
+export type QuestionType = 'SINGLE_CHOICE' | 'MULTI_SELECT' | 'NUMERIC';
+
+export interface Question {
+  id: number;
+  type: QuestionType;
+  text: string; // markdown
+  imageUrl: string | null;
+  explanation: string | null; // markdown, shown with the revealed answer
+  sourceUrl: string | null;
+  options: string[]; // empty for numeric questions
+  correctIdx: number; // single choice answer
+  correctIdxs: number[]; // every correct option of a choice question
+  partialCredit: boolean;
+  numericAnswer: number | null;
+  numericTolerance: number | null;
+  category: string;
+  tags: string[];
+  difficulty: Difficulty;
+}
+
+export interface QuestionCategory {
+  name: string;
+  questionCount: number;
+}
+
+// How players fared on a question across every match
+export interface QuestionStats {
+  timesAnswered: number;
+  timesCorrect: number;
+  accuracy: number | null; // percentage, null until answered
+}
+
+export interface AdminQuestion extends Question {
+  stats: QuestionStats;
+}
+
+export interface QuestionListResponse {
+  questions: AdminQuestion[];
+  total: number;
+}
+
+// Outcome of POST /api/questions/import; rows are numbered from 1, header excluded
+export interface QuestionImportResult {
+  dryRun: boolean;
+  total: number;
+  imported: number;
+  duplicates: Array<{ row: number; text: string }>;
+  errors: Array<{ row: number; message: string }>;
+}
+
+export interface Room extends QuizSettings {
   id: string;
   name: string;
   hostId: number;
   isActive: boolean;
   maxPlayers: number;
-  password: string | null;
+  requiresPassword: boolean;
+  isPrivate: boolean;
+  inviteCode?: string | null; // host only
+  isLocked: boolean; // no new players
   createdAt: string;
   currentPlayers: number; // Added to prevent race conditions
 }
@@ -27,14 +100,105 @@ export interface RoomDetails extends Room {
   participants: Participant[];
 }
 
-export interface CreateRoomRequest {
+export interface CreateRoomRequest extends Partial<QuizSettings> {
   name: string;
   maxPlayers: number;
   password?: string;
+  isPrivate?: boolean;
 }
 
+// Sent with the ws join message; either one lets a player into a protected room
 export interface JoinRoomRequest {
   password?: string;
+  inviteCode?: string;
+}
+
+export type LeaderboardPeriod = 'all' | 'week' | 'month';
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: number;
+  userName: string;
+  rating: number;
+  gamesPlayed: number;
+  wins: number;
+  winRate: number; // percentage, one decimal place
+  ratingChange: number | null; // rating gained in the period, null for all-time
+}
+
+export interface LeaderboardResponse {
+  period: LeaderboardPeriod;
+  total: number;
+  limit: number;
+  offset: number;
+  entries: LeaderboardEntry[];
+}
+
+export interface RatingPoint {
+  matchId: string;
+  rating: number;
+  playedAt: string;
+}
+
+export interface RecentMatch {
+  matchId: string;
+  roomName: string | null;
+  playedAt: string;
+  score: number;
+  placement: number;
+  playerCount: number;
+  isWin: boolean;
+  ratingDelta: number;
+}
+
+export interface UserStats {
+  userId: number;
+  userName: string;
+  rating: number;
+  matchesPlayed: number;
+  wins: number;
+  winRate: number; // percentage, one decimal place
+  accuracy: number | null; // percentage of submitted answers that were correct
+  averageAnswerTimeMs: number | null;
+  ratingHistory: RatingPoint[];
+  recentMatches: RecentMatch[];
+}
+
+export interface MatchStanding {
+  userId: number;
+  userName: string;
+  score: number;
+  placement: number;
+  isWin: boolean;
+  ratingBefore: number;
+  ratingAfter: number;
+  ratingDelta: number;
+}
+
+// The viewer's own answer; option indexes are canonical, as in Question.options
+export interface ReviewAnswer {
+  choiceIdxs: number[];
+  numericAnswer: number | null;
+  isCorrect: boolean;
+  latencyMs: number;
+}
+
+export interface ReviewQuestion {
+  questionIndex: number;
+  question: Omit<Question, 'category' | 'tags' | 'correctIdx'> | null; // null once deleted from the bank
+  winner: { userId: number; userName: string; latencyMs: number | null } | null;
+  myAnswer: ReviewAnswer | null;
+}
+
+export interface MatchReview {
+  matchId: string;
+  roomName: string | null;
+  status: 'IN_PROGRESS' | 'COMPLETED' | 'ABORTED';
+  scoringMode: ScoringMode;
+  startedAt: string;
+  endedAt: string | null;
+  standings: MatchStanding[];
+  questions: ReviewQuestion[];
 }
 
 // WebSocket message types
@@ -60,14 +224,35 @@ export interface ErrorPayload {
   code?: string;
 }
 
+// Durations in the form are entered in seconds
 export interface CreateRoomFormData {
   name: string;
   maxPlayers: number;
   password: string;
+  isPrivate: boolean;
+  scoringMode: ScoringMode;
+  questionCount: number;
+  questionTimeLimit: number;
+  quizStartDelay: number;
+  nextQuestionDelay: number;
+  difficultyMix: DifficultyMix;
+  shuffleOptionsPerPlayer: boolean;
+  requireReady: boolean;
+  readyTimeout: number;
 }
 
 export interface ValidationErrors {
   name?: string;
   maxPlayers?: string;
   password?: string;
+  isPrivate?: string;
+  scoringMode?: string;
+  questionCount?: string;
+  questionTimeLimit?: string;
+  quizStartDelay?: string;
+  nextQuestionDelay?: string;
+  difficultyMix?: string;
+  shuffleOptionsPerPlayer?: string;
+  requireReady?: string;
+  readyTimeout?: string;
 } 
\ No newline at end of file
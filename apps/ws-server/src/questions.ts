@@ -0,0 +1,106 @@
+import { createHash } from 'crypto';
+import { Difficulty, DifficultyMix, QuestionType } from '@repo/db';
+
+// Relative share of each difficulty in a mix; ANY leaves difficulty unconstrained
+const MIX_SHARES: Record<Exclude<DifficultyMix, 'ANY'>, Partial<Record<Difficulty, number>>> = {
+    EASY: { EASY: 1 },
+    MEDIUM: { MEDIUM: 1 },
+    HARD: { HARD: 1 },
+    BALANCED: { EASY: 1, MEDIUM: 1, HARD: 1 }
+};
+
+export interface DifficultyQuota {
+    difficulty: Difficulty | null; // null means any difficulty
+    count: number;
+}
+
+// How many questions of each difficulty a quiz of `questionCount` draws.
+// Rounding leftovers go to the easier difficulties first.
+export function difficultyQuotas(mix: DifficultyMix, questionCount: number): DifficultyQuota[] {
+    if (mix === 'ANY') {
+        return [{ difficulty: null, count: questionCount }];
+    }
+
+    const shares = Object.entries(MIX_SHARES[mix]) as Array<[Difficulty, number]>;
+    const totalShare = shares.reduce((sum, [, share]) => sum + share, 0);
+
+    const quotas = shares.map(([difficulty, share]) => ({
+        difficulty,
+        count: Math.floor((questionCount * share) / totalShare)
+    }));
+
+    let leftover = questionCount - quotas.reduce((sum, q) => sum + q.count, 0);
+    for (const quota of quotas) {
+        if (leftover <= 0) break;
+        quota.count++;
+        leftover--;
+    }
+
+    return quotas;
+}
+
+// Uniform random sample of `count` items (all of them if fewer), via a partial Fisher-Yates shuffle
+export function sample<T>(items: readonly T[], count: number): T[] {
+    const pool = [...items];
+    const n = Math.min(count, pool.length);
+
+    for (let i = 0; i < n; i++) {
+        const j = i + Math.floor(Math.random() * (pool.length - i));
+        [pool[i], pool[j]] = [pool[j]!, pool[i]!];
+    }
+
+    return pool.slice(0, n);
+}
+
+export function shuffle<T>(items: readonly T[]): T[] {
+    return sample(items, items.length);
+}
+
+// Display order of a question's options: position i shows canonical option order[i].
+// Derived from the seed alone, so every instance (and a resuming player) sees the same order.
+export function optionOrder(seed: string, optionCount: number): number[] {
+    const order = Array.from({ length: optionCount }, (_, i) => i);
+    const digest = createHash('sha256').update(seed).digest();
+
+    for (let i = optionCount - 1; i > 0; i--) {
+        const offset = ((optionCount - 1 - i) * 4) % (digest.length - 3);
+        const j = digest.readUInt32BE(offset) % (i + 1);
+        [order[i], order[j]] = [order[j]!, order[i]!];
+    }
+
+    return order;
+}
+
+// What a question accepts as correct
+export interface AnswerKey {
+    type: QuestionType;
+    correctIdxs: number[];
+    partialCredit: boolean;
+    numericAnswer: number | null;
+    numericTolerance: number | null;
+}
+
+// A submitted answer with option positions already mapped to canonical indexes
+export interface CanonicalAnswer {
+    choiceIdxs: number[];
+    numericAnswer: number | null;
+}
+
+// Share of full credit an answer earns, from 0 to 1. Multi-select partial credit
+// pays for each correct pick minus each wrong one; otherwise it's all or nothing.
+export function answerCredit(key: AnswerKey, answer: CanonicalAnswer): number {
+    if (key.type === 'NUMERIC') {
+        if (answer.numericAnswer === null || key.numericAnswer === null) return 0;
+        // The epsilon keeps e.g. 3.15 within 0.01 of 3.14 despite float rounding
+        return Math.abs(answer.numericAnswer - key.numericAnswer) <= (key.numericTolerance ?? 0) + 1e-9 ? 1 : 0;
+    }
+
+    const picked = new Set(answer.choiceIdxs);
+    const correctPicks = key.correctIdxs.filter(idx => picked.has(idx)).length;
+    const wrongPicks = picked.size - correctPicks;
+
+    if (correctPicks === key.correctIdxs.length && wrongPicks === 0) return 1;
+    if (key.type !== 'MULTI_SELECT' || !key.partialCredit) return 0;
+
+    return Math.max(0, (correctPicks - wrongPicks) / key.correctIdxs.length);
+}
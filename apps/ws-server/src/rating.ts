@@ -0,0 +1,58 @@
+// Multiplayer Elo: every player is treated as having played one game against
+// each other player in the room, won or lost by comparing final scores.
+
+export const DEFAULT_RATING = 1200;
+
+const ELO_CONFIG = {
+    PROVISIONAL_GAMES: 30, // players below this use the higher K-factor
+    PROVISIONAL_K: 40,
+    K: 20
+};
+
+export interface RatingInput {
+    userId: number;
+    rating: number;
+    gamesPlayed: number;
+    score: number;
+}
+
+export interface RatingResult {
+    userId: number;
+    oldRating: number;
+    newRating: number;
+    ratingDelta: number;
+}
+
+// Probability that a player rated `rating` beats one rated `opponentRating`
+export function expectedScore(rating: number, opponentRating: number): number {
+    return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+export function calculatePairwiseElo(players: RatingInput[]): RatingResult[] {
+    const opponentCount = players.length - 1;
+
+    return players.map(player => {
+        if (opponentCount < 1) {
+            return { userId: player.userId, oldRating: player.rating, newRating: player.rating, ratingDelta: 0 };
+        }
+
+        let surplus = 0;
+        for (const opponent of players) {
+            if (opponent.userId === player.userId) continue;
+
+            const actual = player.score > opponent.score ? 1 : player.score < opponent.score ? 0 : 0.5;
+            surplus += actual - expectedScore(player.rating, opponent.rating);
+        }
+
+        // Scale by opponent count so a full room doesn't swing ratings harder than a duel
+        const k = player.gamesPlayed < ELO_CONFIG.PROVISIONAL_GAMES ? ELO_CONFIG.PROVISIONAL_K : ELO_CONFIG.K;
+        const ratingDelta = Math.round((k * surplus) / opponentCount);
+
+        return {
+            userId: player.userId,
+            oldRating: player.rating,
+            newRating: player.rating + ratingDelta,
+            ratingDelta
+        };
+    });
+}
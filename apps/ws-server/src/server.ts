@@ -1,9 +1,13 @@
 import { config } from 'dotenv';
-import { createServer } from 'http';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { compare } from 'bcrypt';
 import { WebSocket, WebSocketServer } from 'ws';
-import { PrismaClient } from '@repo/db';
+import { Difficulty, DifficultyMix, Match, Prisma, PrismaClient, QuizPhase, Room, ScoringMode } from '@repo/db';
 import { Redis } from 'ioredis';
 import { verifySessionToken, WebSocketSession } from './auth.js';
+import { calculatePairwiseElo, DEFAULT_RATING } from './rating.js';
+import { AnswerKey, answerCredit, CanonicalAnswer, difficultyQuotas, optionOrder, sample, shuffle } from './questions.js';
 import {
     WebSocketMessage,
     WebSocketMessageSchema,
@@ -11,14 +15,30 @@ import {
     ErrorResponseSchema,
     JoinedRoomResponse,
     JoinedRoomResponseSchema,
+    ParticipantJoinedResponse,
+    QuizStartingResponse,
+    PublicQuestion,
     NextQuestionResponse,
     NextQuestionResponseSchema,
     EndQuestionResponse,
     EndQuestionResponseSchema,
+    LobbyUpdateResponse,
+    HostActionMessage,
+    HostActionMessageSchema,
+    ParticipantKickedResponse,
+    HostTransferredResponse,
+    RoomLockChangedResponse,
+    QuizPausedResponse,
+    QuizResumedResponse,
     ParticipantLeftResponse,
     ParticipantLeftResponseSchema,
+    ParticipantDisconnectedResponse,
+    ParticipantReconnectedResponse,
+    ResumedResponse,
     QuizFinishedResponse,
     QuizFinishedResponseSchema,
+    QuizAbortedResponse,
+    RoomBroadcast,
     WebSocketError
 } from './types.js';
 
@@ -27,26 +47,116 @@ config();
 
 // Configuration constants
 const CONFIG = {
-    QUESTION_TIME_LIMIT: 10000, // 10 seconds
-    QUIZ_START_DELAY: 5000, // 5 seconds
-    NEXT_QUESTION_DELAY: 3000, // 3 seconds
-    QUESTIONS_PER_QUIZ: 10,
     REDIS_TTL: 600, // 10 minutes
+    SPEED_MAX_POINTS: 1000, // instant correct answer in speed mode
+    SPEED_MIN_POINTS: 500, // correct answer right at the deadline
     MAX_CONNECTIONS_PER_USER: 3,
+    RECONNECT_GRACE_PERIOD: 30000, // 30 seconds to resume before losing the seat
+    MAX_PAUSE_DURATION: 300000, // 5 minutes, then a paused match is aborted; below REDIS_TTL
+    SCHEDULER_LEASE_TTL: 15000, // 15 seconds, how long a dead instance blocks a room's scheduling
+    SCHEDULER_LEASE_RENEW_INTERVAL: 5000, // 5 seconds
+    RECOVERY_INTERVAL: 15000, // 15 seconds between sweeps for matches nobody schedules
+    RECOVERY_TOLERANCE: 5000, // a phase this far past its deadline is still resumed
     RATE_LIMIT_WINDOW: 1000, // 1 second
-    RATE_LIMIT_MAX: 10 // 10 messages per second
+    RATE_LIMIT_MAX: 10, // 10 messages per second
+    SUBMISSION_BATCH_SIZE: 200,
+    SUBMISSION_FLUSH_INTERVAL: 2000, // 2 seconds
+    SUBMISSION_BUFFER_MAX: 10000, // drop oldest beyond this if the database is down
+    SUBMISSION_FLUSH_TIMEOUT: 3000, // 3 seconds to hear back from every instance before finishing a match
+    SUBMISSION_FLUSH_POLL: 50, // 50ms between checks for their acknowledgements
+    RECENT_MATCHES_LOOKBACK: 5 // questions from each player's last N matches are avoided
 };
 
+// Pub/sub channels shared by every ws-server instance
+const CHANNELS = {
+    BROADCAST: 'ws:room-broadcast', // room messages to deliver to local sockets
+    CONTROL: 'ws:room-control' // requests for the instance that schedules a room
+};
+
+// Identifies this instance as a scheduler lease holder
+const INSTANCE_ID = randomUUID();
+
 const prisma = new PrismaClient();
 const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+// A subscribed connection can't issue other commands, so pub/sub gets its own
+const subscriber = redis.duplicate();
 
-interface QuizQuestion {
+interface QuizQuestion extends AnswerKey {
     id: number;
     text: string;
+    imageUrl: string | null;
+    explanation: string | null;
+    sourceUrl: string | null;
     options: string[];
     correctIdx: number;
+    category: string;
+    difficulty: Difficulty;
+}
+
+// Per-room quiz settings, durations in milliseconds
+interface QuizSettings {
+    scoringMode: ScoringMode;
+    questionCount: number;
+    questionTimeLimit: number;
+    quizStartDelay: number;
+    nextQuestionDelay: number;
+    categories: string[]; // empty means every category
+    difficultyMix: DifficultyMix;
+    shuffleOptionsPerPlayer: boolean;
+}
+
+// An accepted answer submission, with server-measured latency
+interface SubmittedAnswer {
+    roomId: string;
+    matchId: string;
+    questionIndex: number;
+    questionId: number;
+    userId: number;
+    // Canonical indexes, not the player's display positions
+    choiceIdx: number | null;
+    choiceIdxs: number[];
+    numericAnswer: number | null;
+    latencyMs: number;
+}
+
+// Question set and settings of a room's running match, stored in Redis for all instances
+interface QuizData {
+    matchId: string;
+    questions: QuizQuestion[];
+    settings: QuizSettings;
+    timestamp: number;
+}
+
+// How to reorder a question's options when delivering a message to a player
+interface OptionShuffle {
+    matchId: string;
+    questionIndex: number;
+    optionCount: number;
+    perPlayer: boolean;
+}
+
+// A paused match's phase and the time it had left, kept in Redis until the host resumes
+interface PausedQuiz {
+    phase: QuizPhase;
+    questionIndex: number | null; // null during the countdown before the first question
+    remainingMs: number;
 }
 
+// How a match phase is named in messages to players
+const CLIENT_PHASES: Record<QuizPhase, 'starting' | 'question' | 'reveal'> = {
+    STARTING: 'starting',
+    QUESTION: 'question',
+    REVEAL: 'reveal'
+};
+
+type ControlMessage =
+    | { action: 'endQuestion', roomId: string, questionIndex: number }
+    | { action: 'pause', roomId: string }
+    | { action: 'resume', roomId: string }
+    | { action: 'cleanup', roomId: string, matchId: string | null }
+    | { action: 'evict', roomId: string, userId: number }
+    | { action: 'flush', roomId: string, requestId: string };
+
 interface WebSocketWithUser extends WebSocket {
     userId?: number;
     currentRoom?: string;
@@ -62,11 +172,18 @@ interface RoomTimer {
     roomId: string;
 }
 
+// Local state: sockets connected to this instance, and timers of rooms this instance schedules
 const roomSockets = new Map<string, Set<WebSocketWithUser>>();
-const questionsCache = new Map<string, { questions: QuizQuestion[], timestamp: number }>();
 const timers = new Map<string, RoomTimer>();
+const scheduledRooms = new Set<string>();
 const userConnections = new Map<number, Set<string>>();
 const connectionCleanup = new Map<string, NodeJS.Timeout>();
+// Players whose socket dropped here, keyed `${roomId}:${userId}`; the Redis entry is the source of truth
+const disconnectTimers = new Map<string, NodeJS.Timeout>();
+
+// Answer submissions waiting to be written in the next batch
+let submissionBuffer: Prisma.AnswerSubmissionCreateManyInput[] = [];
+let submissionFlush: Promise<void> | null = null;
 
 // Rate limiting
 const rateLimitMap = new Map<number, { count: number, resetTime: number }>();
@@ -74,6 +191,28 @@ const rateLimitMap = new Map<number, { count: number, resetTime: number }>();
 // Cleanup interval for stale data
 const CLEANUP_INTERVAL = 60000; // 1 minute
 setInterval(cleanupStaleData, CLEANUP_INTERVAL);
+setInterval(() => { flushAnswerSubmissions().catch(console.error); }, CONFIG.SUBMISSION_FLUSH_INTERVAL);
+setInterval(() => { renewSchedulerLeases().catch(console.error); }, CONFIG.SCHEDULER_LEASE_RENEW_INTERVAL);
+setInterval(() => { recoverOrphanedMatches().catch(console.error); }, CONFIG.RECOVERY_INTERVAL);
+
+// Compare-and-set scripts so an instance only touches a lease or entry it still owns
+const RENEW_LEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const EXPIRE_DISCONNECT_SCRIPT = `
+if redis.call('hget', KEYS[1], ARGV[1]) == ARGV[2] then
+    return redis.call('hdel', KEYS[1], ARGV[1])
+end
+return 0`;
 
 // Redis error handling
 redis.on('error', (error) => {
@@ -84,21 +223,120 @@ redis.on('connect', () => {
     console.log('Redis connected successfully');
 });
 
+subscriber.on('error', (error) => {
+    console.error('Redis subscriber error:', error);
+});
+
+subscriber.subscribe(CHANNELS.BROADCAST, CHANNELS.CONTROL).catch((error) => {
+    console.error('Failed to subscribe to room channels:', error);
+});
+
+subscriber.on('message', (channel, raw) => {
+    try {
+        if (channel === CHANNELS.BROADCAST) {
+            const { roomId, message, shuffle } = JSON.parse(raw) as {
+                roomId: string,
+                message: string,
+                shuffle?: OptionShuffle
+            };
+            deliverToLocalSockets(roomId, message, shuffle);
+        } else if (channel === CHANNELS.CONTROL) {
+            handleControlMessage(JSON.parse(raw) as ControlMessage);
+        }
+    } catch (error) {
+        console.error(`Invalid message on ${channel}:`, error);
+    }
+});
+
 const server = createServer((req, res) => {
     if (req.url === '/health' && req.method === 'GET') {
         res.writeHead(200, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({
             status: 'ok',
             timestamp: new Date().toISOString(),
+            instanceId: INSTANCE_ID,
             connections: wss.clients.size
         }));
         return;
     }
 
+    if (req.url === '/host-actions' && req.method === 'POST') {
+        handleHostActionRequest(req, res).catch((error) => {
+            console.error('Error handling host action request:', error);
+            sendJson(res, 500, { error: { code: 500, message: 'Internal Server Error: unexpected exception' } });
+        });
+        return;
+    }
+
     res.writeHead(404);
     res.end('Not Found');
 });
 
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', (chunk: string) => {
+            body += chunk;
+            if (body.length > maxBytes) {
+                resolve(null);
+                req.destroy();
+            }
+        });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+// REST counterpart of the host control messages, used by the web app's room routes.
+// Authenticated with the same session token the ws connection uses.
+async function handleHostActionRequest(req: IncomingMessage, res: ServerResponse) {
+    const token = req.headers.authorization?.replace(/^Bearer /, '');
+    const session = token ? await verifySessionToken(token) : null;
+
+    if (!session) {
+        sendJson(res, 401, { error: { code: 401, message: 'Unauthorized: missing or invalid token' } });
+        return;
+    }
+
+    const userId = parseInt(session.sub);
+    if (!checkRateLimit(userId)) {
+        sendJson(res, 429, { error: { code: 429, message: 'Rate limit exceeded' } });
+        return;
+    }
+
+    const body = await readBody(req, 1024);
+    let parsed: unknown;
+    try {
+        parsed = body ? JSON.parse(body) : undefined;
+    } catch {
+        parsed = undefined;
+    }
+
+    const validation = HostActionMessageSchema.safeParse(parsed);
+    if (!validation.success) {
+        sendJson(res, 400, { error: { code: 400, message: 'Bad Request: invalid host action' } });
+        return;
+    }
+
+    try {
+        await handleHostAction(userId, validation.data);
+        sendJson(res, 200, { success: true });
+    } catch (error) {
+        if (error instanceof WebSocketError) {
+            sendJson(res, error.code, { error: { code: error.code, message: error.message } });
+            return;
+        }
+        throw error;
+    }
+}
+
 const wss = new WebSocketServer({
     server,
     clientTracking: true,
@@ -138,6 +376,19 @@ function generateConnectionId(): string {
     return `conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Strip the answer before a question leaves the server
+function toPublicQuestion(question: QuizQuestion, order?: number[]): PublicQuestion {
+    return {
+        id: question.id,
+        type: question.type,
+        text: question.text,
+        imageUrl: question.imageUrl,
+        options: order ? order.map(i => question.options[i]!) : question.options,
+        category: question.category,
+        difficulty: question.difficulty
+    };
+}
+
 // Rate limiting function
 function checkRateLimit(userId: number): boolean {
     const now = Date.now();
@@ -283,9 +534,9 @@ function cleanupConnection(ws: WebSocketWithUser) {
             }
         }
 
-        // Leave current room
+        // Hold the player's seat so they can resume
         if (ws.currentRoom) {
-            handleLeaveRoom(ws).catch(console.error);
+            handleDisconnect(ws).catch(console.error);
         }
 
         // Remove from user connections tracking
@@ -328,13 +579,62 @@ async function handleMessage(ws: WebSocketWithUser, message: WebSocketMessage) {
         case 'leaveRoom':
             await handleLeaveRoom(ws, message.payload);
             break;
+        case 'resume':
+            await handleResume(ws, message.payload);
+            break;
+        case 'setReady':
+            await handleSetReady(ws, message.payload);
+            break;
+        case 'kickParticipant':
+        case 'banParticipant':
+        case 'transferHost':
+        case 'lockRoom':
+        case 'pauseQuiz':
+        case 'resumeQuiz':
+        case 'abortQuiz':
+            await handleHostAction(ws.userId, message);
+            break;
         default:
             throw new WebSocketError(400, 'Unknown message type');
     }
 }
 
+// Banned players never get in. Locked rooms take no new players, and private or password
+// protected rooms need the invite code or the password. The host and players who already
+// have a seat (back from the quiz page, or reconnecting) skip the other checks.
+async function verifyRoomAccess(
+    room: Room,
+    userId: number,
+    credentials: { password?: string, inviteCode?: string }
+) {
+    if (room.bannedUserIds.includes(userId)) {
+        throw new WebSocketError(403, 'You are banned from this room');
+    }
+    if (room.hostId === userId) return;
+    if (!room.password && !room.isPrivate && !room.isLocked) return;
+
+    const seat = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId: room.id, userId } }
+    });
+    if (seat) return;
+
+    if (room.isLocked) {
+        throw new WebSocketError(423, 'Room is locked');
+    }
+
+    const { password, inviteCode } = credentials;
+
+    if (inviteCode && inviteCode.replace(/[\s-]/g, '').toUpperCase() === room.inviteCode) return;
+    if (password && room.password && await compare(password, room.password)) return;
+
+    if (!password && !inviteCode) {
+        throw new WebSocketError(401, room.password ? 'Password or invite code required' : 'Invite code required');
+    }
+    throw new WebSocketError(401, 'Incorrect password or invite code');
+}
+
 // join room handler with proper transaction handling
-async function handleJoinRoom(ws: WebSocketWithUser, payload: { roomId: string }) {
+async function handleJoinRoom(ws: WebSocketWithUser, payload: { roomId: string, password?: string, inviteCode?: string }) {
     const { roomId } = payload;
 
     // Input validation
@@ -343,6 +643,17 @@ async function handleJoinRoom(ws: WebSocketWithUser, payload: { roomId: string }
     }
 
     try {
+        // bcrypt is slow, so check credentials before opening the transaction
+        const target = await prisma.room.findUnique({
+            where: { id: roomId, isActive: true }
+        });
+
+        if (!target) {
+            throw new WebSocketError(404, 'Room not found or inactive');
+        }
+
+        await verifyRoomAccess(target, ws.userId!, payload);
+
         const result = await prisma.$transaction(async (tx) => {
             // Check if room exists and is active
             const room = await tx.room.findUnique({
@@ -397,19 +708,23 @@ async function handleJoinRoom(ws: WebSocketWithUser, payload: { roomId: string }
         roomSockets.get(roomId)!.add(ws);
         ws.currentRoom = roomId;
 
+        // Rejoining from the lobby also counts as coming back
+        await markReconnected(roomId, ws.userId!);
+
         // Get user details for broadcast
         const user = await prisma.user.findUnique({
             where: { id: ws.userId }
         });
 
         // Broadcast participant joined
-        broadcastToRoom(roomId, {
+        const joined: ParticipantJoinedResponse = {
             type: 'participantJoined',
             payload: {
                 userId: ws.userId!,
                 userName: user?.name || 'Anonymous'
             }
-        });
+        };
+        broadcastToRoom(roomId, joined);
 
         // Send confirmation
         const response: JoinedRoomResponse = {
@@ -417,6 +732,7 @@ async function handleJoinRoom(ws: WebSocketWithUser, payload: { roomId: string }
             payload: { roomId }
         };
         sendResponse(ws, response);
+        sendResponse(ws, await lobbyUpdate(roomId));
 
     } catch (error) {
         if (error instanceof WebSocketError) {
@@ -427,6 +743,72 @@ async function handleJoinRoom(ws: WebSocketWithUser, payload: { roomId: string }
     }
 }
 
+// ready check handler - players mark themselves ready in the lobby
+async function handleSetReady(ws: WebSocketWithUser, payload: { roomId: string, ready: boolean }) {
+    const { roomId, ready } = payload;
+
+    // Input validation
+    if (!roomId || typeof roomId !== 'string' || roomId.length > 50) {
+        throw new WebSocketError(400, 'Invalid room ID');
+    }
+
+    const seated = await redis.sismember(`room:${roomId}:participants`, ws.userId!.toString());
+    if (!seated) {
+        throw new WebSocketError(403, 'Not a participant of this room');
+    }
+
+    const currentQuestion = await redis.get(`room:${roomId}:currentQuestion`);
+    if (currentQuestion !== null) {
+        throw new WebSocketError(409, 'Quiz already in progress');
+    }
+
+    if (ready) {
+        await redis.multi()
+            .sadd(`room:${roomId}:ready`, ws.userId!.toString())
+            .expire(`room:${roomId}:ready`, CONFIG.REDIS_TTL)
+            .exec();
+    } else {
+        await redis.srem(`room:${roomId}:ready`, ws.userId!.toString());
+    }
+
+    broadcastToRoom(roomId, await lobbyUpdate(roomId));
+}
+
+async function lobbyUpdate(roomId: string): Promise<LobbyUpdateResponse> {
+    const [ready, deadline] = await Promise.all([
+        redis.smembers(`room:${roomId}:ready`),
+        redis.get(`room:${roomId}:readyDeadline`)
+    ]);
+
+    return {
+        type: 'lobbyUpdate',
+        payload: {
+            readyUserIds: ready.map(Number),
+            readyDeadline: deadline ? new Date(parseInt(deadline)).toISOString() : null
+        }
+    };
+}
+
+// Rooms that require it only start once every player but the host is ready. The first
+// early start opens a countdown, after which the host may start regardless.
+async function checkPlayersReady(room: Room) {
+    const [participants, ready] = await Promise.all([
+        redis.smembers(`room:${room.id}:participants`),
+        redis.smembers(`room:${room.id}:ready`)
+    ]);
+
+    const waiting = participants.filter(id => id !== room.hostId.toString() && !ready.includes(id));
+    if (waiting.length === 0) return;
+
+    const deadlineKey = `room:${room.id}:readyDeadline`;
+    await redis.set(deadlineKey, (Date.now() + room.readyTimeout).toString(), 'EX', CONFIG.REDIS_TTL, 'NX');
+    const deadline = parseInt(await redis.get(deadlineKey) ?? '0');
+    if (Date.now() >= deadline) return;
+
+    broadcastToRoom(room.id, await lobbyUpdate(room.id));
+    throw new WebSocketError(409, `Waiting for ${waiting.length} ${waiting.length === 1 ? 'player' : 'players'} to be ready`);
+}
+
 // start quiz handler
 async function handleStartQuiz(ws: WebSocketWithUser, payload: { roomId: string }) {
     const { roomId } = payload;
@@ -452,49 +834,87 @@ async function handleStartQuiz(ws: WebSocketWithUser, payload: { roomId: string
             throw new WebSocketError(409, 'Quiz already in progress');
         }
 
-        // Get random questions with better distribution
-        const questionCount = await prisma.question.count();
-        if (questionCount < CONFIG.QUESTIONS_PER_QUIZ) {
-            throw new WebSocketError(500, 'Not enough questions available');
+        if (room.requireReady) {
+            await checkPlayersReady(room);
         }
 
-        const skip = Math.max(0, Math.floor(Math.random() * (questionCount - CONFIG.QUESTIONS_PER_QUIZ)));
-        const orderDir = Math.random() < 0.5 ? 'asc' : 'desc';
+        const settings: QuizSettings = {
+            scoringMode: room.scoringMode,
+            questionCount: room.questionCount,
+            questionTimeLimit: room.questionTimeLimit,
+            quizStartDelay: room.quizStartDelay,
+            nextQuestionDelay: room.nextQuestionDelay,
+            categories: room.categories,
+            difficultyMix: room.difficultyMix,
+            shuffleOptionsPerPlayer: room.shuffleOptionsPerPlayer
+        };
+
+        const questions = await selectQuestions(roomId, settings);
+        if (questions.length < settings.questionCount) {
+            throw new WebSocketError(500, 'Not enough questions available for the room\'s categories');
+        }
+
+        // This instance schedules the room's questions; a held lease means another start won the race
+        if (!await acquireSchedulerLease(roomId)) {
+            throw new WebSocketError(409, 'Quiz already in progress');
+        }
+
+        // Start a fresh match: record it and reset scores left over from the previous one
+        const startTime = Date.now();
+        const match = await prisma.$transaction(async (tx) => {
+            await tx.roomParticipant.updateMany({
+                where: { roomId },
+                data: { score: 0 }
+            });
 
-        const questions = await prisma.question.findMany({
-            take: CONFIG.QUESTIONS_PER_QUIZ,
-            skip: skip,
-            orderBy: { id: orderDir }
+            return tx.match.create({
+                data: {
+                    roomId,
+                    scoringMode: settings.scoringMode,
+                    questionIds: questions.map(q => q.id),
+                    questionTimeLimit: settings.questionTimeLimit,
+                    nextQuestionDelay: settings.nextQuestionDelay,
+                    shuffleOptionsPerPlayer: settings.shuffleOptionsPerPlayer,
+                    phase: 'STARTING',
+                    phaseDeadline: new Date(startTime + settings.quizStartDelay)
+                }
+            });
         });
 
-        // Store in cache with timestamp
-        questionsCache.set(roomId, {
+        // Share the question set with every instance
+        await setQuizData(roomId, {
+            matchId: match.id,
             questions,
+            settings,
             timestamp: Date.now()
         });
 
-        // Initialize Redis state
+        // Initialize Redis state; players ready up again before the next match
         await redis.multi()
             .set(`room:${roomId}:currentQuestion`, '-1') // -1 means quiz starting
             .expire(`room:${roomId}:currentQuestion`, CONFIG.REDIS_TTL)
-            .set(`room:${roomId}:startTime`, Date.now().toString())
+            .set(`room:${roomId}:startTime`, startTime.toString())
             .expire(`room:${roomId}:startTime`, CONFIG.REDIS_TTL)
+            .del(`room:${roomId}:ready`, `room:${roomId}:readyDeadline`)
             .exec();
 
         // Broadcast quiz start
-        broadcastToRoom(roomId, {
+        const starting: QuizStartingResponse = {
             type: 'quizStarting',
             payload: {
                 roomId,
-                startDelay: CONFIG.QUIZ_START_DELAY,
-                questionCount: CONFIG.QUESTIONS_PER_QUIZ
+                matchId: match.id,
+                startDelay: settings.quizStartDelay,
+                questionCount: settings.questionCount,
+                scoringMode: settings.scoringMode
             }
-        });
+        };
+        broadcastToRoom(roomId, starting);
 
         // Schedule first question
         const startTimer = setTimeout(() => {
             handleNextQuestion(roomId, 0).catch(console.error);
-        }, CONFIG.QUIZ_START_DELAY);
+        }, settings.quizStartDelay);
 
         // Store timer for cleanup
         timers.set(`${roomId}:start`, {
@@ -508,28 +928,100 @@ async function handleStartQuiz(ws: WebSocketWithUser, payload: { roomId: string
             throw error;
         }
         console.error('Error starting quiz:', error);
+        // Let the host retry; the lease is only released if this instance holds it
+        releaseSchedulerLease(roomId).catch(console.error);
         throw new WebSocketError(500, 'Failed to start quiz');
     }
 }
 
+// pick questions from the room's categories following its difficulty mix,
+// preferring ones no participant has seen recently
+async function selectQuestions(roomId: string, settings: QuizSettings): Promise<QuizQuestion[]> {
+    const categoryFilter: Prisma.QuestionWhereInput = settings.categories.length > 0
+        ? { category: { in: settings.categories } }
+        : {};
+
+    const seenIds = await recentlySeenQuestionIds(roomId);
+    const pickedIds: number[] = [];
+
+    // Unseen questions first; seen ones only when the filtered pool runs dry
+    const draw = async (where: Prisma.QuestionWhereInput, count: number) => {
+        const fresh = await sampleQuestionIds({ ...where, id: { notIn: [...seenIds, ...pickedIds] } }, count);
+        pickedIds.push(...fresh);
+
+        if (fresh.length < count) {
+            pickedIds.push(...await sampleQuestionIds({ ...where, id: { notIn: pickedIds } }, count - fresh.length));
+        }
+    };
+
+    for (const quota of difficultyQuotas(settings.difficultyMix, settings.questionCount)) {
+        await draw({ ...categoryFilter, ...(quota.difficulty && { difficulty: quota.difficulty }) }, quota.count);
+    }
+
+    // A difficulty that ran short is topped up from the rest of the room's categories
+    if (pickedIds.length < settings.questionCount) {
+        await draw(categoryFilter, settings.questionCount - pickedIds.length);
+    }
+
+    const questions = await prisma.question.findMany({
+        where: { id: { in: pickedIds } }
+    });
+    const questionById = new Map(questions.map(q => [q.id, q]));
+
+    // Interleave difficulties instead of serving them in quota order
+    return shuffle(pickedIds)
+        .map(id => questionById.get(id))
+        .filter((q): q is NonNullable<typeof q> => !!q);
+}
+
+// uniform sample over every matching question, not a contiguous block of ids
+async function sampleQuestionIds(where: Prisma.QuestionWhereInput, count: number): Promise<number[]> {
+    if (count <= 0) return [];
+
+    const candidates = await prisma.question.findMany({
+        where,
+        select: { id: true }
+    });
+
+    return sample(candidates.map(c => c.id), count);
+}
+
+// questions from each participant's last few matches
+async function recentlySeenQuestionIds(roomId: string): Promise<Set<number>> {
+    const participants = await prisma.roomParticipant.findMany({
+        where: { roomId },
+        select: { userId: true }
+    });
+
+    const recent = await Promise.all(participants.map(p =>
+        prisma.matchResult.findMany({
+            where: { userId: p.userId },
+            orderBy: { createdAt: 'desc' },
+            take: CONFIG.RECENT_MATCHES_LOOKBACK,
+            select: { match: { select: { questionIds: true } } }
+        })
+    ));
+
+    return new Set(recent.flat().flatMap(result => result.match.questionIds));
+}
+
 // submit answer handler with server-controlled timing
 async function handleSubmitAnswer(ws: WebSocketWithUser, payload: {
     roomId: string,
     questionIndex: number,
-    choiceIdx: number
+    choiceIdx?: number,
+    choiceIdxs?: number[],
+    numericAnswer?: number
 }) {
-    const { roomId, questionIndex, choiceIdx } = payload;
+    const { roomId, questionIndex } = payload;
 
     // Input validation first
     if (!roomId || typeof roomId !== 'string') {
         throw new WebSocketError(400, 'Invalid room ID');
     }
-    if (typeof questionIndex !== 'number' || questionIndex < 0 || questionIndex >= CONFIG.QUESTIONS_PER_QUIZ) {
+    if (typeof questionIndex !== 'number' || questionIndex < 0) {
         throw new WebSocketError(400, 'Invalid question index');
     }
-    if (typeof choiceIdx !== 'number' || choiceIdx < 0 || choiceIdx > 3) {
-        throw new WebSocketError(400, 'Invalid choice index');
-    }
 
     try {
         // Verify room participation
@@ -546,25 +1038,50 @@ async function handleSubmitAnswer(ws: WebSocketWithUser, payload: {
             throw new WebSocketError(403, 'Not a participant in this room');
         }
 
+        // Validate question index against the room's question count
+        const questionData = await getQuizData(roomId);
+        if (!questionData || questionIndex >= questionData.settings.questionCount) {
+            throw new WebSocketError(400, 'Invalid question index');
+        }
+
+        const currentQuestionObj = questionData.questions[questionIndex];
+
+        if (!currentQuestionObj) {
+            throw new WebSocketError(500, 'Question not found');
+        }
+
+        const order = optionOrder(
+            optionSeed(optionShuffleFor(questionData, questionIndex), ws.userId!),
+            currentQuestionObj.options.length
+        );
+        const canonicalAnswer = toCanonicalAnswer(currentQuestionObj, payload, order);
+
         // Verify current question and check if expired
         const pipeline = redis.pipeline();
         pipeline.get(`room:${roomId}:currentQuestion`);
-        pipeline.get(`room:${roomId}:q:${questionIndex}:answered:${ws.userId}`);
+        pipeline.sismember(`room:${roomId}:q:${questionIndex}:answered`, ws.userId!.toString());
         pipeline.exists(`room:${roomId}:q:${questionIndex}:firstUser`);
         pipeline.exists(`room:${roomId}:q:${questionIndex}:expired`); // Check if question expired
+        pipeline.get(`room:${roomId}:q:${questionIndex}:startedAt`);
+        pipeline.exists(`room:${roomId}:paused`);
 
         const results = await pipeline.exec();
+        const receivedAt = Date.now();
 
         if (!results || results.some(([err]) => err)) {
             throw new WebSocketError(500, 'Failed to verify question state');
         }
 
-        const [currentQuestion, hasAnswered, hasWinner, isExpired] = results.map(([, result]) => result);
+        const [currentQuestion, hasAnswered, hasWinner, isExpired, startedAt, isPaused] = results.map(([, result]) => result);
 
         if (currentQuestion !== questionIndex.toString()) {
             throw new WebSocketError(409, 'Question no longer active');
         }
 
+        if (isPaused) {
+            throw new WebSocketError(409, 'Quiz is paused');
+        }
+
         if (isExpired) {
             throw new WebSocketError(410, 'Question has expired');
         }
@@ -574,23 +1091,42 @@ async function handleSubmitAnswer(ws: WebSocketWithUser, payload: {
         }
 
         // Mark as answered atomically
-        const answerKey = `room:${roomId}:q:${questionIndex}:answered:${ws.userId}`;
-        const setResult = await redis.set(answerKey, '1', 'EX', CONFIG.REDIS_TTL, 'NX');
+        const answerKey = `room:${roomId}:q:${questionIndex}:answered`;
+        const markResults = await redis.multi()
+            .sadd(answerKey, ws.userId!.toString())
+            .expire(answerKey, CONFIG.REDIS_TTL)
+            .exec();
 
-        if (!setResult) {
+        if (!markResults?.[0]?.[1]) {
             return; // Already answered (race condition)
         }
 
         // Check if answer is correct
-        const questionData = questionsCache.get(roomId);
-        const currentQuestionObj = questionData?.questions[questionIndex];
+        const credit = answerCredit(currentQuestionObj, canonicalAnswer);
+        const isCorrect = credit === 1;
+        const answer: SubmittedAnswer = {
+            roomId,
+            matchId: questionData.matchId,
+            questionIndex,
+            questionId: currentQuestionObj.id,
+            userId: ws.userId!,
+            choiceIdx: currentQuestionObj.type === 'SINGLE_CHOICE' ? canonicalAnswer.choiceIdxs[0] ?? null : null,
+            choiceIdxs: currentQuestionObj.type === 'MULTI_SELECT' ? canonicalAnswer.choiceIdxs : [],
+            numericAnswer: canonicalAnswer.numericAnswer,
+            latencyMs: typeof startedAt === 'string'
+                ? receivedAt - parseInt(startedAt)
+                : questionData.settings.questionTimeLimit
+        };
 
-        if (!currentQuestionObj) {
-            throw new WebSocketError(500, 'Question not found');
+        queueAnswerSubmission(answer, isCorrect);
+
+        if (questionData.settings.scoringMode === 'SPEED') {
+            await recordSpeedAnswer(answer, credit, questionData.settings);
+            return;
         }
 
-        if (currentQuestionObj.correctIdx !== choiceIdx) {
-            return; // Incorrect answer, no further action needed
+        if (!isCorrect) {
+            return; // Partial credit doesn't win the single point of first-correct scoring
         }
 
         // Try to claim first correct answer atomically
@@ -601,70 +1137,15 @@ async function handleSubmitAnswer(ws: WebSocketWithUser, payload: {
             return; // Someone else already got it
         }
 
-        // Record in database with proper transaction handling
-        try {
-            await prisma.$transaction(async (tx) => {
-                // Create answer claim
-                await tx.answerClaim.create({
-                    data: {
-                        roomId,
-                        questionIndex,
-                        userId: ws.userId!,
-                        txHash: `claim_${roomId}_${questionIndex}_${ws.userId}_${Date.now()}`
-                    }
-                });
-
-                // Update participant score
-                await tx.roomParticipant.update({
-                    where: {
-                        roomId_userId: {
-                            roomId,
-                            userId: ws.userId!
-                        }
-                    },
-                    data: {
-                        score: { increment: 1 }
-                    }
-                });
-            });
-        } catch (dbError: any) {
-            console.error('Database error recording answer:', dbError);
-        }
-
-        // Clear question timer since someone answered correctly
-        const timerKey = `${roomId}:${questionIndex}`;
-        const roomTimer = timers.get(timerKey);
-        if (roomTimer) {
-            clearTimeout(roomTimer.timer);
-            timers.delete(timerKey);
-        }
-
-        // Broadcast end of question
-        const message: EndQuestionResponse = {
-            type: 'endQuestion',
-            payload: {
-                questionIndex,
-                correctIdx: currentQuestionObj.correctIdx,
-                winnerUserId: ws.userId!
-            }
-        };
-
-        broadcastToRoom(roomId, message);
+        await redis.multi()
+            .hset(`room:${roomId}:q:${questionIndex}:points`, ws.userId!.toString(), '1')
+            .expire(`room:${roomId}:q:${questionIndex}:points`, CONFIG.REDIS_TTL)
+            .exec();
 
-        // Schedule next question or finish quiz
-        const nextTimer = setTimeout(() => {
-            if (questionIndex < CONFIG.QUESTIONS_PER_QUIZ - 1) {
-                handleNextQuestion(roomId, questionIndex + 1).catch(console.error);
-            } else {
-                handleQuizFinished(roomId).catch(console.error);
-            }
-        }, CONFIG.NEXT_QUESTION_DELAY);
+        await recordCorrectAnswer(answer, 1, true);
 
-        timers.set(`${roomId}:next-${questionIndex}`, {
-            timer: nextTimer,
-            questionIndex: questionIndex + 1,
-            roomId
-        });
+        // Someone answered correctly, end the question early
+        await requestEndQuestion(roomId, questionIndex);
 
     } catch (error) {
         if (error instanceof WebSocketError) {
@@ -675,160 +1156,960 @@ async function handleSubmitAnswer(ws: WebSocketWithUser, payload: {
     }
 }
 
-// leave room handler
-async function handleLeaveRoom(ws: WebSocketWithUser, payload?: { roomId: string }) {
-    const roomId = payload?.roomId || ws.currentRoom;
-    if (!roomId || !ws.userId) return;
-
-    try {
-        // Use transaction for data consistency
-        await prisma.$transaction(async (tx) => {
-            // Remove from room participants
-            await tx.roomParticipant.deleteMany({
-                where: {
-                    roomId,
-                    userId: ws.userId!
-                }
-            });
-        });
-
-        // Redis cleanup
-        await redis.srem(`room:${roomId}:participants`, ws.userId.toString());
-
-        // Remove from room sockets
-        const roomWs = roomSockets.get(roomId);
-        if (roomWs) {
-            roomWs.delete(ws);
-            if (roomWs.size === 0) {
-                roomSockets.delete(roomId);
-                // Clean up room data
-                cleanupRoomData(roomId);
+// Check an answer's shape against the question type and map option positions,
+// which are in the player's own order, back to canonical indexes
+function toCanonicalAnswer(
+    question: QuizQuestion,
+    payload: { choiceIdx?: number, choiceIdxs?: number[], numericAnswer?: number },
+    order: number[]
+): CanonicalAnswer {
+    switch (question.type) {
+        case 'SINGLE_CHOICE': {
+            const idx = payload.choiceIdx !== undefined ? order[payload.choiceIdx] : undefined;
+            if (idx === undefined) {
+                throw new WebSocketError(400, 'Invalid choice index');
             }
+            return { choiceIdxs: [idx], numericAnswer: null };
         }
+        case 'MULTI_SELECT': {
+            const positions = payload.choiceIdxs ?? [];
+            const idxs = positions.map(position => order[position]);
+            if (positions.length === 0 || new Set(positions).size !== positions.length ||
+                idxs.some(idx => idx === undefined)) {
+                throw new WebSocketError(400, 'Invalid choice indexes');
+            }
+            return { choiceIdxs: idxs as number[], numericAnswer: null };
+        }
+        case 'NUMERIC':
+            if (typeof payload.numericAnswer !== 'number' || !Number.isFinite(payload.numericAnswer)) {
+                throw new WebSocketError(400, 'Invalid numeric answer');
+            }
+            return { choiceIdxs: [], numericAnswer: payload.numericAnswer };
+    }
+}
 
-        ws.currentRoom = undefined;
-
-        // Broadcast participant left
-        const message: ParticipantLeftResponse = {
-            type: 'participantLeft',
-            payload: { userId: ws.userId }
-        };
-        broadcastToRoom(roomId, message);
+// buffer a submission for the batched AnswerSubmission writer, off the hot path
+function queueAnswerSubmission(answer: SubmittedAnswer, isCorrect: boolean) {
+    submissionBuffer.push({
+        matchId: answer.matchId,
+        roomId: answer.roomId,
+        questionId: answer.questionId,
+        questionIndex: answer.questionIndex,
+        userId: answer.userId,
+        choiceIdx: answer.choiceIdx,
+        choiceIdxs: answer.choiceIdxs,
+        numericAnswer: answer.numericAnswer,
+        isCorrect,
+        latencyMs: answer.latencyMs,
+        submittedAt: new Date()
+    });
 
-    } catch (error) {
-        console.error('Error leaving room:', error);
+    if (submissionBuffer.length >= CONFIG.SUBMISSION_BATCH_SIZE) {
+        flushAnswerSubmissions().catch(console.error);
     }
 }
 
-// broadcast function with error handling
-function broadcastToRoom(roomId: string, message: any) {
-    const sockets = roomSockets.get(roomId);
-    if (!sockets || sockets.size === 0) return;
+// write buffered submissions; only one flush runs at a time
+async function flushAnswerSubmissions(): Promise<void> {
+    if (submissionFlush) return submissionFlush;
+    if (submissionBuffer.length === 0) return;
 
-    const messageStr = JSON.stringify(message);
-    const deadSockets: WebSocketWithUser[] = [];
+    submissionFlush = (async () => {
+        while (submissionBuffer.length > 0) {
+            const batch = submissionBuffer.slice(0, CONFIG.SUBMISSION_BATCH_SIZE);
+            submissionBuffer = submissionBuffer.slice(batch.length);
 
-    sockets.forEach(ws => {
-        if (ws.readyState === WebSocket.OPEN) {
             try {
-                ws.send(messageStr);
+                await prisma.answerSubmission.createMany({ data: batch });
             } catch (error) {
-                console.error('Error broadcasting to socket:', error);
-                deadSockets.push(ws);
+                console.error(`Failed to write ${batch.length} answer submissions:`, error);
+                // Put the batch back for the next interval, keeping the buffer bounded
+                submissionBuffer = [...batch, ...submissionBuffer].slice(-CONFIG.SUBMISSION_BUFFER_MAX);
+                break;
             }
-        } else {
-            deadSockets.push(ws);
         }
+    })().finally(() => {
+        submissionFlush = null;
     });
 
-    // Clean up dead sockets
-    deadSockets.forEach(ws => {
-        sockets.delete(ws);
-        cleanupConnection(ws);
-    });
+    return submissionFlush;
 }
 
-// question expiry handler with server-controlled timing
-async function handleQuestionExpiry(roomId: string, questionIndex: number) {
-    try {
-        const questionData = questionsCache.get(roomId);
-        if (!questionData || !questionData.questions[questionIndex]) return;
+// write out the submissions buffered on every instance before a match's final read;
+// each instance that got the request acknowledges once its buffer is written
+async function flushAnswerSubmissionsEverywhere(roomId: string) {
+    const requestId = randomUUID();
+    const ackKey = `room:${roomId}:flush:${requestId}`;
+    const message: ControlMessage = { action: 'flush', roomId, requestId };
 
-        // Check if question was already answered (prevents race conditions)
-        const hasWinner = await redis.exists(`room:${roomId}:q:${questionIndex}:firstUser`);
-        if (hasWinner) return; // Already handled by answer submission
+    // Every instance, this one included, has a single subscriber on the control channel
+    const receivers = await redis.publish(CHANNELS.CONTROL, JSON.stringify(message));
+    const deadline = Date.now() + CONFIG.SUBMISSION_FLUSH_TIMEOUT;
 
-        // Mark question as expired in Redis to prevent late answers
-        await redis.set(
-            `room:${roomId}:q:${questionIndex}:expired`,
-            '1',
-            'EX',
-            CONFIG.REDIS_TTL
-        );
+    while (await redis.llen(ackKey) < receivers) {
+        if (Date.now() >= deadline) {
+            console.warn(`Finishing room ${roomId} without every instance's answer submissions`);
+            break;
+        }
+        await new Promise(resolve => setTimeout(resolve, CONFIG.SUBMISSION_FLUSH_POLL));
+    }
+
+    await redis.del(ackKey);
+}
+
+async function acknowledgeFlush(roomId: string, requestId: string) {
+    await flushAnswerSubmissions();
+
+    const ackKey = `room:${roomId}:flush:${requestId}`;
+    await redis.multi()
+        .rpush(ackKey, INSTANCE_ID)
+        .pexpire(ackKey, CONFIG.SUBMISSION_FLUSH_TIMEOUT)
+        .exec();
+}
+
+// Points for a correct answer in speed mode, decaying linearly over the time limit
+function calculateSpeedPoints(elapsedMs: number, timeLimitMs: number): number {
+    const progress = Math.min(Math.max(elapsedMs / timeLimitMs, 0), 1);
+    return Math.round(CONFIG.SPEED_MAX_POINTS - (CONFIG.SPEED_MAX_POINTS - CONFIG.SPEED_MIN_POINTS) * progress);
+}
+
+// speed mode: every correct answer scores (partly correct ones a share), question ends once everyone has answered
+async function recordSpeedAnswer(answer: SubmittedAnswer, credit: number, settings: QuizSettings) {
+    const { roomId, questionIndex, userId } = answer;
+    const prefix = `room:${roomId}:q:${questionIndex}`;
+
+    if (credit > 0) {
+        const points = Math.round(calculateSpeedPoints(answer.latencyMs, settings.questionTimeLimit) * credit);
+
+        await redis.multi()
+            .hset(`${prefix}:points`, userId.toString(), points.toString())
+            .expire(`${prefix}:points`, CONFIG.REDIS_TTL)
+            .exec();
+
+        // Fastest fully correct answer is still recorded as the question's winner
+        const isFirst = credit === 1 &&
+            await redis.set(`${prefix}:firstUser`, userId.toString(), 'EX', CONFIG.REDIS_TTL, 'NX');
+
+        await recordCorrectAnswer(answer, points, !!isFirst);
+    }
+
+    const results = await redis.multi()
+        .incr(`${prefix}:answerCount`)
+        .expire(`${prefix}:answerCount`, CONFIG.REDIS_TTL)
+        .scard(`room:${roomId}:participants`)
+        .exec();
+
+    const answerCount = Number(results?.[0]?.[1] ?? 0);
+    const participantCount = Number(results?.[2]?.[1] ?? 0);
+
+    if (answerCount >= participantCount) {
+        await requestEndQuestion(roomId, questionIndex);
+    }
+}
+
+// persist a correct answer: winner claim (if first) and score increment
+async function recordCorrectAnswer(answer: SubmittedAnswer, points: number, isWinner: boolean) {
+    const { roomId, matchId, questionIndex, userId } = answer;
+
+    try {
+        await prisma.$transaction(async (tx) => {
+            // Create answer claim for the question winner
+            if (isWinner) {
+                await tx.answerClaim.create({
+                    data: {
+                        roomId,
+                        matchId,
+                        questionIndex,
+                        userId,
+                        latencyMs: answer.latencyMs,
+                        txHash: `claim_${roomId}_${questionIndex}_${userId}_${Date.now()}`
+                    }
+                });
+            }
+
+            // Update participant score
+            await tx.roomParticipant.update({
+                where: {
+                    roomId_userId: {
+                        roomId,
+                        userId
+                    }
+                },
+                data: {
+                    score: { increment: points }
+                }
+            });
+        });
+    } catch (dbError: unknown) {
+        // P2025: the player left before their score was written
+        if (dbError instanceof Prisma.PrismaClientKnownRequestError && dbError.code === 'P2025') {
+            console.warn(`Not recording answer of user ${userId} in room ${roomId}: no longer a participant`);
+            return;
+        }
+        console.error('Database error recording answer:', dbError);
+    }
+}
+
+// host-only room controls, shared by the ws messages and POST /host-actions
+async function handleHostAction(hostId: number, action: HostActionMessage) {
+    const { roomId } = action.payload;
+
+    if (!roomId || roomId.length > 50) {
+        throw new WebSocketError(400, 'Invalid room ID');
+    }
+
+    const room = await prisma.room.findUnique({
+        where: { id: roomId }
+    });
+
+    if (!room) {
+        throw new WebSocketError(404, 'Room not found');
+    }
+
+    if (room.hostId !== hostId) {
+        throw new WebSocketError(403, 'Only room host can manage the room');
+    }
+
+    switch (action.type) {
+        case 'kickParticipant':
+        case 'banParticipant':
+            await removeFromRoom(room, action.payload.userId, action.type === 'banParticipant');
+            break;
+        case 'transferHost':
+            await transferHost(room, action.payload.userId);
+            break;
+        case 'lockRoom': {
+            const { locked } = action.payload;
+            await prisma.room.update({
+                where: { id: roomId },
+                data: { isLocked: locked }
+            });
+
+            const message: RoomLockChangedResponse = {
+                type: 'roomLockChanged',
+                payload: { locked }
+            };
+            broadcastToRoom(roomId, message);
+            break;
+        }
+        case 'pauseQuiz':
+        case 'resumeQuiz': {
+            const pause = action.type === 'pauseQuiz';
+            const [currentQuestion, paused] = await Promise.all([
+                redis.get(`room:${roomId}:currentQuestion`),
+                redis.exists(`room:${roomId}:paused`)
+            ]);
+
+            if (currentQuestion === null) {
+                throw new WebSocketError(409, 'No quiz in progress');
+            }
+            if (pause && paused) {
+                throw new WebSocketError(409, 'Quiz is already paused');
+            }
+            if (!pause && !paused) {
+                throw new WebSocketError(409, 'Quiz is not paused');
+            }
+
+            await requestPauseChange(roomId, pause);
+            break;
+        }
+        case 'abortQuiz':
+            await abortQuiz(roomId);
+            break;
+    }
+}
+
+// kick a player, optionally banning them; a ban also applies to players not currently seated
+async function removeFromRoom(room: Room, userId: number, ban: boolean) {
+    if (userId === room.hostId) {
+        throw new WebSocketError(400, 'The host cannot remove themselves');
+    }
+
+    const seat = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId: room.id, userId } }
+    });
+
+    if (!seat && !ban) {
+        throw new WebSocketError(404, 'Not a participant of this room');
+    }
+
+    if (ban && !room.bannedUserIds.includes(userId)) {
+        await prisma.room.update({
+            where: { id: room.id },
+            data: { bannedUserIds: { push: userId } }
+        });
+    }
+
+    // Tell the room, the removed player included, before their sockets are detached
+    const message: ParticipantKickedResponse = {
+        type: 'participantKicked',
+        payload: { userId, banned: ban }
+    };
+    broadcastToRoom(room.id, message);
+
+    if (seat) {
+        publishControl({ action: 'evict', roomId: room.id, userId });
+        await markReconnected(room.id, userId);
+        await removeParticipant(room.id, userId);
+    }
+}
+
+async function transferHost(room: Room, userId: number) {
+    if (userId === room.hostId) {
+        throw new WebSocketError(400, 'Already the host');
+    }
+
+    const seat = await prisma.roomParticipant.findUnique({
+        where: { roomId_userId: { roomId: room.id, userId } },
+        include: { user: { select: { name: true } } }
+    });
+
+    if (!seat) {
+        throw new WebSocketError(404, 'Not a participant of this room');
+    }
+
+    await prisma.room.update({
+        where: { id: room.id },
+        data: { hostId: userId }
+    });
+
+    const message: HostTransferredResponse = {
+        type: 'hostTransferred',
+        payload: { hostId: userId, hostName: seat.user.name || 'Anonymous' }
+    };
+    broadcastToRoom(room.id, message);
+}
+
+// leave room handler
+async function handleLeaveRoom(ws: WebSocketWithUser, payload?: { roomId: string }) {
+    const roomId = payload?.roomId || ws.currentRoom;
+    if (!roomId || !ws.userId) return;
+
+    await markReconnected(roomId, ws.userId);
+
+    detachSocket(ws, roomId);
+
+    await removeParticipant(roomId, ws.userId);
+}
+
+function detachSocket(ws: WebSocketWithUser, roomId: string) {
+    const roomWs = roomSockets.get(roomId);
+    if (roomWs) {
+        roomWs.delete(ws);
+        if (roomWs.size === 0) {
+            roomSockets.delete(roomId);
+        }
+    }
+    ws.currentRoom = undefined;
+}
+
+// remove a player from the room for good, cleaning up once nobody is left
+async function removeParticipant(roomId: string, userId: number) {
+    try {
+        // Use transaction for data consistency
+        await prisma.$transaction(async (tx) => {
+            // Remove from room participants
+            await tx.roomParticipant.deleteMany({
+                where: {
+                    roomId,
+                    userId
+                }
+            });
+        });
+
+        // Redis cleanup
+        await redis.srem(`room:${roomId}:participants`, userId.toString());
+        await redis.srem(`room:${roomId}:ready`, userId.toString());
+
+        // Disconnected players keep their place in the set, so the room only empties when all have left
+        const remaining = await redis.scard(`room:${roomId}:participants`);
+        if (remaining === 0) {
+            // Close a running match first: cleanup drops the lease, and recovery would
+            // otherwise restart the match for an empty room
+            const questionData = await getQuizData(roomId);
+            if (questionData) {
+                await markMatchAborted(questionData.matchId).catch(console.error);
+            }
+
+            // Clean up room data
+            cleanupRoomData(roomId, questionData?.matchId ?? null, questionData?.questions.length);
+            redis.del(
+                `room:${roomId}:participants`,
+                `room:${roomId}:disconnected`,
+                `room:${roomId}:ready`,
+                `room:${roomId}:readyDeadline`
+            ).catch(console.error);
+        }
+
+        // Broadcast participant left
+        const message: ParticipantLeftResponse = {
+            type: 'participantLeft',
+            payload: { userId }
+        };
+        broadcastToRoom(roomId, message);
+
+    } catch (error) {
+        console.error('Error leaving room:', error);
+    }
+}
+
+// dropped connection: keep the seat and score for the grace period instead of leaving
+async function handleDisconnect(ws: WebSocketWithUser) {
+    const roomId = ws.currentRoom;
+    const userId = ws.userId;
+    if (!roomId || !userId) return;
+
+    detachSocket(ws, roomId);
+
+    // Another tab of the same player is still connected here
+    if (Array.from(roomSockets.get(roomId) ?? []).some(socket => socket.userId === userId)) return;
+
+    const key = `${roomId}:${userId}`;
+    if (disconnectTimers.has(key)) return;
+
+    // The token lets the timer tell this disconnect apart from a later one, possibly on another instance
+    const token = `${INSTANCE_ID}:${Date.now()}`;
+    await redis.multi()
+        .hset(`room:${roomId}:disconnected`, userId.toString(), token)
+        .expire(`room:${roomId}:disconnected`, CONFIG.REDIS_TTL)
+        .exec();
+
+    disconnectTimers.set(key, setTimeout(() => {
+        disconnectTimers.delete(key);
+        expireDisconnect(roomId, userId, token).catch(console.error);
+    }, CONFIG.RECONNECT_GRACE_PERIOD));
+
+    const message: ParticipantDisconnectedResponse = {
+        type: 'participantDisconnected',
+        payload: { userId, gracePeriodMs: CONFIG.RECONNECT_GRACE_PERIOD }
+    };
+    broadcastToRoom(roomId, message);
+}
+
+// grace period over: remove the player unless they came back on any instance
+async function expireDisconnect(roomId: string, userId: number, token: string) {
+    const expired = await redis.eval(EXPIRE_DISCONNECT_SCRIPT, 1, `room:${roomId}:disconnected`, userId.toString(), token);
+    if (expired === 1) {
+        await removeParticipant(roomId, userId);
+    }
+}
+
+// cancel a pending removal, returns whether the player was disconnected
+async function markReconnected(roomId: string, userId: number): Promise<boolean> {
+    const key = `${roomId}:${userId}`;
+    const timer = disconnectTimers.get(key);
+    if (timer) {
+        clearTimeout(timer);
+        disconnectTimers.delete(key);
+    }
+
+    const removed = await redis.hdel(`room:${roomId}:disconnected`, userId.toString());
+    return removed > 0;
+}
+
+// resume handler - reattach a returning player and send them the live room state
+async function handleResume(ws: WebSocketWithUser, payload: { roomId: string }) {
+    const { roomId } = payload;
+
+    // Input validation
+    if (!roomId || typeof roomId !== 'string' || roomId.length > 50) {
+        throw new WebSocketError(400, 'Invalid room ID');
+    }
+
+    try {
+        // Only players who still hold a seat can resume
+        const participant = await prisma.roomParticipant.findUnique({
+            where: {
+                roomId_userId: {
+                    roomId,
+                    userId: ws.userId!
+                }
+            },
+            include: { room: true }
+        });
+
+        if (!participant) {
+            throw new WebSocketError(404, 'Not a participant of this room');
+        }
+
+        const wasDisconnected = await markReconnected(roomId, ws.userId!);
+
+        await redis.sadd(`room:${roomId}:participants`, ws.userId!.toString());
+        await redis.expire(`room:${roomId}:participants`, CONFIG.REDIS_TTL);
+
+        if (!roomSockets.has(roomId)) {
+            roomSockets.set(roomId, new Set());
+        }
+        roomSockets.get(roomId)!.add(ws);
+        ws.currentRoom = roomId;
+
+        const [currentQuestion, paused, participants] = await Promise.all([
+            redis.get(`room:${roomId}:currentQuestion`),
+            redis.get(`room:${roomId}:paused`),
+            prisma.roomParticipant.findMany({
+                where: { roomId },
+                include: { user: true },
+                orderBy: { score: 'desc' }
+            })
+        ]);
+
+        const questionData = await getQuizData(roomId);
+        const questionIndex = currentQuestion !== null ? parseInt(currentQuestion) : null;
+
+        const state: ResumedResponse['payload'] = {
+            roomId,
+            hostId: participant.room.hostId,
+            matchId: null,
+            phase: 'lobby',
+            questionIndex: null,
+            questionCount: null,
+            question: null,
+            startedAt: null,
+            expiresAt: null,
+            correctIdx: null,
+            correctIdxs: null,
+            numericAnswer: null,
+            numericTolerance: null,
+            explanation: null,
+            sourceUrl: null,
+            hasAnswered: false,
+            pausedRemainingMs: null,
+            scores: participants.map(p => ({
+                userId: p.userId,
+                userName: p.user.name || 'Anonymous',
+                score: p.score
+            }))
+        };
+
+        if (questionData && questionIndex !== null) {
+            state.matchId = questionData.matchId;
+            state.pausedRemainingMs = paused ? (JSON.parse(paused) as PausedQuiz).remainingMs : null;
+            state.questionCount = questionData.settings.questionCount;
+            state.questionIndex = questionIndex;
+
+            const question = questionData.questions[questionIndex];
+
+            if (questionIndex < 0 || !question) {
+                // Countdown before the first question
+                const startTime = await redis.get(`room:${roomId}:startTime`);
+                state.phase = 'starting';
+                if (startTime) {
+                    state.expiresAt = new Date(parseInt(startTime) + questionData.settings.quizStartDelay).toISOString();
+                }
+            } else {
+                const prefix = `room:${roomId}:q:${questionIndex}`;
+                const [startedAt, ended, answered] = await Promise.all([
+                    redis.get(`${prefix}:startedAt`),
+                    redis.get(`${prefix}:ended`),
+                    redis.sismember(`${prefix}:answered`, ws.userId!.toString())
+                ]);
+
+                const order = optionOrder(
+                    optionSeed(optionShuffleFor(questionData, questionIndex), ws.userId!),
+                    question.options.length
+                );
+
+                state.phase = ended ? 'reveal' : 'question';
+                state.question = toPublicQuestion(question, order);
+                state.hasAnswered = answered === 1;
+                if (ended) {
+                    Object.assign(state, answerReveal(question, order));
+                }
+
+                if (startedAt) {
+                    const startedAtMs = parseInt(startedAt);
+                    state.startedAt = new Date(startedAtMs).toISOString();
+                    state.expiresAt = new Date(startedAtMs + questionData.settings.questionTimeLimit).toISOString();
+                }
+            }
+        }
+
+        const response: ResumedResponse = {
+            type: 'resumed',
+            payload: state
+        };
+        sendResponse(ws, response);
+
+        if (wasDisconnected) {
+            const message: ParticipantReconnectedResponse = {
+                type: 'participantReconnected',
+                payload: { userId: ws.userId! }
+            };
+            broadcastToRoom(roomId, message);
+        }
+
+    } catch (error) {
+        if (error instanceof WebSocketError) {
+            throw error;
+        }
+        console.error('Error resuming room:', error);
+        throw new WebSocketError(500, 'Failed to resume room');
+    }
+}
+
+// broadcast to a room's sockets on every instance; messages about a question's
+// options are reordered per recipient when `shuffle` is given
+function broadcastToRoom(roomId: string, message: RoomBroadcast, shuffle?: OptionShuffle) {
+    const payload = JSON.stringify({ roomId, message: JSON.stringify(message), shuffle });
+    redis.publish(CHANNELS.BROADCAST, payload).catch((error) => {
+        console.error(`Error publishing broadcast for room ${roomId}:`, error);
+    });
+}
+
+// deliver a published room message to the sockets connected to this instance
+function deliverToLocalSockets(roomId: string, messageStr: string, shuffle?: OptionShuffle) {
+    const sockets = roomSockets.get(roomId);
+    if (!sockets || sockets.size === 0) return;
+
+    const deadSockets: WebSocketWithUser[] = [];
+    const message = shuffle ? JSON.parse(messageStr) as NextQuestionResponse | EndQuestionResponse : null;
+    const rendered = new Map<string, string>(); // by seed, so a per-match order is serialized once
+
+    sockets.forEach(ws => {
+        if (ws.readyState === WebSocket.OPEN) {
+            try {
+                if (shuffle && message) {
+                    const seed = optionSeed(shuffle, ws.userId!);
+                    if (!rendered.has(seed)) {
+                        const order = optionOrder(seed, shuffle.optionCount);
+                        rendered.set(seed, JSON.stringify(applyOptionOrder(message, order)));
+                    }
+                    ws.send(rendered.get(seed)!);
+                } else {
+                    ws.send(messageStr);
+                }
+            } catch (error) {
+                console.error('Error broadcasting to socket:', error);
+                deadSockets.push(ws);
+            }
+        } else {
+            deadSockets.push(ws);
+        }
+    });
+
+    // Clean up dead sockets
+    deadSockets.forEach(ws => {
+        cleanupConnection(ws);
+    });
+}
+
+function optionShuffleFor(questionData: QuizData, questionIndex: number): OptionShuffle {
+    return {
+        matchId: questionData.matchId,
+        questionIndex,
+        optionCount: questionData.questions[questionIndex]?.options.length ?? 0,
+        perPlayer: questionData.settings.shuffleOptionsPerPlayer
+    };
+}
+
+function optionSeed(shuffle: OptionShuffle, userId: number): string {
+    const base = `${shuffle.matchId}:${shuffle.questionIndex}`;
+    return shuffle.perPlayer ? `${base}:${userId}` : base;
+}
+
+// The answer as revealed to players, option indexes in `order` when given
+function answerReveal(question: QuizQuestion, order?: number[]) {
+    const toPosition = (idx: number) => order ? order.indexOf(idx) : idx;
+    return {
+        correctIdx: question.type === 'SINGLE_CHOICE' ? toPosition(question.correctIdx) : null,
+        correctIdxs: question.correctIdxs.map(toPosition),
+        numericAnswer: question.numericAnswer,
+        numericTolerance: question.numericTolerance,
+        explanation: question.explanation,
+        sourceUrl: question.sourceUrl
+    };
+}
+
+// Rewrite a question message into one player's option order
+function applyOptionOrder(
+    message: NextQuestionResponse | EndQuestionResponse,
+    order: number[]
+): NextQuestionResponse | EndQuestionResponse {
+    if (message.type === 'nextQuestion') {
+        const { question } = message.payload;
+        return {
+            ...message,
+            payload: {
+                ...message.payload,
+                question: { ...question, options: order.map(i => question.options[i]!) }
+            }
+        };
+    }
+
+    const { correctIdx, correctIdxs } = message.payload;
+    return {
+        ...message,
+        payload: {
+            ...message.payload,
+            correctIdx: correctIdx !== null ? order.indexOf(correctIdx) : null,
+            correctIdxs: correctIdxs.map(idx => order.indexOf(idx))
+        }
+    };
+}
+
+function publishControl(message: ControlMessage) {
+    redis.publish(CHANNELS.CONTROL, JSON.stringify(message)).catch((error) => {
+        console.error(`Error publishing ${message.action} for room ${message.roomId}:`, error);
+    });
+}
+
+// control requests are acted on only by the instance scheduling the room,
+// except evictions and flushes: every instance drops its own sockets of a removed
+// player and writes out its own buffered submissions
+function handleControlMessage(message: ControlMessage) {
+    if (message.action === 'evict') {
+        roomSockets.get(message.roomId)?.forEach(ws => {
+            if (ws.userId === message.userId) {
+                detachSocket(ws, message.roomId);
+            }
+        });
+        return;
+    }
+
+    if (message.action === 'flush') {
+        acknowledgeFlush(message.roomId, message.requestId).catch(console.error);
+        return;
+    }
+
+    if (!scheduledRooms.has(message.roomId)) return;
+
+    switch (message.action) {
+        case 'endQuestion':
+            handleEndQuestion(message.roomId, message.questionIndex).catch(console.error);
+            break;
+        case 'pause':
+            pauseQuiz(message.roomId).catch(console.error);
+            break;
+        case 'resume':
+            resumeQuiz(message.roomId).catch(console.error);
+            break;
+        case 'cleanup':
+            stopSchedulingMatch(message.roomId, message.matchId).catch(console.error);
+            break;
+    }
+}
+
+// end a question early from whichever instance received the deciding answer
+async function requestEndQuestion(roomId: string, questionIndex: number) {
+    if (scheduledRooms.has(roomId)) {
+        await handleEndQuestion(roomId, questionIndex);
+    } else {
+        publishControl({ action: 'endQuestion', roomId, questionIndex });
+    }
+}
+
+// pause or resume on the instance that runs the room's timers
+async function requestPauseChange(roomId: string, pause: boolean) {
+    if (scheduledRooms.has(roomId)) {
+        await (pause ? pauseQuiz(roomId) : resumeQuiz(roomId));
+    } else {
+        publishControl({ action: pause ? 'pause' : 'resume', roomId });
+    }
+}
+
+async function getQuizData(roomId: string): Promise<QuizData | null> {
+    const raw = await redis.get(`room:${roomId}:quiz`);
+    return raw ? JSON.parse(raw) as QuizData : null;
+}
+
+async function setQuizData(roomId: string, data: QuizData) {
+    await redis.set(`room:${roomId}:quiz`, JSON.stringify(data), 'EX', CONFIG.REDIS_TTL);
+}
+
+// claim the right to run a room's timers
+async function acquireSchedulerLease(roomId: string): Promise<boolean> {
+    const acquired = await redis.set(
+        `room:${roomId}:scheduler`, INSTANCE_ID, 'PX', CONFIG.SCHEDULER_LEASE_TTL, 'NX'
+    );
+    if (acquired) {
+        scheduledRooms.add(roomId);
+    }
+    return !!acquired;
+}
+
+async function releaseSchedulerLease(roomId: string) {
+    scheduledRooms.delete(roomId);
+    await redis.eval(RELEASE_LEASE_SCRIPT, 1, `room:${roomId}:scheduler`, INSTANCE_ID);
+}
+
+// keep leases alive; a room whose lease was lost stops being scheduled here
+async function renewSchedulerLeases() {
+    for (const roomId of Array.from(scheduledRooms)) {
+        const renewed = await redis.eval(
+            RENEW_LEASE_SCRIPT, 1, `room:${roomId}:scheduler`, INSTANCE_ID, CONFIG.SCHEDULER_LEASE_TTL
+        );
+        if (renewed !== 1) {
+            console.warn(`Lost scheduler lease for room ${roomId}`);
+            clearRoomTimers(roomId);
+            scheduledRooms.delete(roomId);
+        }
+    }
+}
+
+function clearRoomTimers(roomId: string) {
+    const timerKeys = Array.from(timers.keys()).filter(key => key.startsWith(`${roomId}:`));
+    timerKeys.forEach(key => {
+        const roomTimer = timers.get(key);
+        if (roomTimer) {
+            clearTimeout(roomTimer.timer);
+            timers.delete(key);
+        }
+    });
+}
+
+// drop this instance's timers and lease for a room
+function stopScheduling(roomId: string) {
+    clearRoomTimers(roomId);
+    if (scheduledRooms.has(roomId)) {
+        releaseSchedulerLease(roomId).catch(console.error);
+    }
+}
+
+// a cleanup arrives late on every instance, the one that sent it included; by then the
+// host may have started the room's next match, whose timers and lease have to stay
+async function stopSchedulingMatch(roomId: string, matchId: string | null) {
+    const questionData = await getQuizData(roomId);
+    if (questionData && questionData.matchId !== matchId) return;
+
+    stopScheduling(roomId);
+}
+
+// schedule the next question or finish the quiz after the reveal delay
+function scheduleNextQuestion(
+    roomId: string,
+    questionIndex: number,
+    settings: QuizSettings,
+    delay: number = settings.nextQuestionDelay
+) {
+    const nextTimer = setTimeout(() => {
+        if (questionIndex < settings.questionCount - 1) {
+            handleNextQuestion(roomId, questionIndex + 1).catch(console.error);
+        } else {
+            handleQuizFinished(roomId).catch(console.error);
+        }
+    }, delay);
+
+    timers.set(`${roomId}:next-${questionIndex}`, {
+        timer: nextTimer,
+        questionIndex: questionIndex + 1,
+        roomId
+    });
+}
+
+// end question handler - runs once per question, on expiry or when answering is over
+async function handleEndQuestion(roomId: string, questionIndex: number) {
+    try {
+        // A timer that slipped past a pause; resuming schedules the phase again
+        if (await redis.exists(`room:${roomId}:paused`)) return;
+
+        const questionData = await getQuizData(roomId);
+        const question = questionData?.questions[questionIndex];
+        if (!questionData || !question) return;
+
+        const prefix = `room:${roomId}:q:${questionIndex}`;
+
+        // Only the first caller ends the question (prevents race conditions)
+        const claimed = await redis.set(`${prefix}:ended`, '1', 'EX', CONFIG.REDIS_TTL, 'NX');
+        if (!claimed) return;
+
+        // Clear question timer in case the question ended early
+        const timerKey = `${roomId}:${questionIndex}`;
+        const roomTimer = timers.get(timerKey);
+        if (roomTimer) {
+            clearTimeout(roomTimer.timer);
+            timers.delete(timerKey);
+        }
+
+        // Mark question as expired in Redis to prevent late answers
+        await redis.set(`${prefix}:expired`, '1', 'EX', CONFIG.REDIS_TTL);
+
+        // Saved before anything else so a pause landing now freezes the reveal, not the question
+        await persistQuizPhase(
+            questionData.matchId,
+            'REVEAL',
+            questionIndex,
+            new Date(Date.now() + questionData.settings.nextQuestionDelay)
+        );
+
+        const [winnerUserId, pointsByUser, participantIds] = await Promise.all([
+            redis.get(`${prefix}:firstUser`),
+            redis.hgetall(`${prefix}:points`),
+            redis.smembers(`room:${roomId}:participants`)
+        ]);
 
         const message: EndQuestionResponse = {
             type: 'endQuestion',
             payload: {
                 questionIndex,
-                correctIdx: questionData.questions[questionIndex].correctIdx,
-                winnerUserId: null  // No winner due to timeout
+                ...answerReveal(question),
+                winnerUserId: winnerUserId ? parseInt(winnerUserId) : null,
+                points: participantIds.map(userId => ({
+                    userId: parseInt(userId),
+                    points: parseInt(pointsByUser[userId] ?? '0')
+                }))
             }
         };
 
-        broadcastToRoom(roomId, message);
+        // Correct options are canonical here and mapped into each player's ordering on delivery
+        broadcastToRoom(roomId, message, optionShuffleFor(questionData, questionIndex));
 
-        // Schedule next question or finish quiz
-        const nextTimer = setTimeout(() => {
-            if (questionIndex < CONFIG.QUESTIONS_PER_QUIZ - 1) {
-                handleNextQuestion(roomId, questionIndex + 1).catch(console.error);
-            } else {
-                handleQuizFinished(roomId).catch(console.error);
-            }
-        }, CONFIG.NEXT_QUESTION_DELAY);
+        // Paused while ending; resuming schedules the reveal instead
+        if (await redis.exists(`room:${roomId}:paused`)) return;
 
-        timers.set(`${roomId}:next-${questionIndex}`, {
-            timer: nextTimer,
-            questionIndex: questionIndex + 1,
-            roomId
-        });
+        scheduleNextQuestion(roomId, questionIndex, questionData.settings);
 
     } catch (error) {
-        console.error('Error handling question expiry:', error);
+        console.error('Error ending question:', error);
     }
 }
 
 // next question handler with server timestamps
 async function handleNextQuestion(roomId: string, questionIndex: number) {
     try {
-        const questionData = questionsCache.get(roomId);
-        if (!questionData || !questionData.questions[questionIndex]) {
+        if (await redis.exists(`room:${roomId}:paused`)) return;
+
+        const questionData = await getQuizData(roomId);
+        const question = questionData?.questions[questionIndex];
+        if (!questionData || !question) {
             console.error(`Question ${questionIndex} not found for room ${roomId}`);
             return;
         }
 
-        // Update current question in Redis
-        await redis.set(`room:${roomId}:currentQuestion`, questionIndex.toString(), 'EX', CONFIG.REDIS_TTL);
-
         // Create server timestamps for precise timing control
         const startedAt = new Date();
-        const expiresAt = new Date(startedAt.getTime() + CONFIG.QUESTION_TIME_LIMIT);
+        const expiresAt = new Date(startedAt.getTime() + questionData.settings.questionTimeLimit);
+
+        // Update current question in Redis, keeping the match's shared state alive for long quizzes
+        await redis.multi()
+            .set(`room:${roomId}:currentQuestion`, questionIndex.toString(), 'EX', CONFIG.REDIS_TTL)
+            .set(`room:${roomId}:q:${questionIndex}:startedAt`, startedAt.getTime().toString(), 'EX', CONFIG.REDIS_TTL)
+            .expire(`room:${roomId}:quiz`, CONFIG.REDIS_TTL)
+            .expire(`room:${roomId}:participants`, CONFIG.REDIS_TTL)
+            .exec();
 
         const message: NextQuestionResponse = {
             type: 'nextQuestion',
             payload: {
                 questionIndex,
-                question: questionData.questions[questionIndex],
+                question: toPublicQuestion(question),
                 startedAt: startedAt.toISOString(),
                 expiresAt: expiresAt.toISOString()
             }
         };
 
-        broadcastToRoom(roomId, message);
+        await persistQuizPhase(questionData.matchId, 'QUESTION', questionIndex, expiresAt);
+
+        // Validate outgoing payload so the answer can never leak to clients
+        broadcastToRoom(
+            roomId,
+            NextQuestionResponseSchema.parse(message),
+            optionShuffleFor(questionData, questionIndex)
+        );
 
         // Set timer for question expiry based on exact server timing
         const timer = setTimeout(() =>
-            handleQuestionExpiry(roomId, questionIndex),
-            CONFIG.QUESTION_TIME_LIMIT  // Use exact config duration
+            handleEndQuestion(roomId, questionIndex),
+            questionData.settings.questionTimeLimit  // Use exact room duration
         );
 
         timers.set(`${roomId}:${questionIndex}`, {
@@ -842,99 +2123,364 @@ async function handleNextQuestion(roomId: string, questionIndex: number) {
     }
 }
 
+// a question that was claimed as ended around the pause is frozen in its reveal,
+// since its end timer would find it already ended and never move the match on
+async function settlePausedPhase(roomId: string, settings: QuizSettings, paused: PausedQuiz): Promise<PausedQuiz> {
+    if (paused.phase !== 'QUESTION' || paused.questionIndex === null) return paused;
+
+    const ended = await redis.exists(`room:${roomId}:q:${paused.questionIndex}:ended`);
+    return ended
+        ? { phase: 'REVEAL', questionIndex: paused.questionIndex, remainingMs: settings.nextQuestionDelay }
+        : paused;
+}
+
+// freeze the running phase: stop its timer and keep the time it had left
+async function pauseQuiz(roomId: string) {
+    const questionData = await getQuizData(roomId);
+    if (!questionData) return;
+
+    const match = await prisma.match.findUnique({ where: { id: questionData.matchId } });
+    if (match?.status !== 'IN_PROGRESS' || !match.phase || !match.phaseDeadline) return;
+
+    const paused = await settlePausedPhase(roomId, questionData.settings, {
+        phase: match.phase,
+        questionIndex: match.currentQuestionIndex,
+        remainingMs: Math.max(0, match.phaseDeadline.getTime() - Date.now())
+    });
+
+    // Refresh the shared state so it outlives the longest pause
+    const stored = await redis.multi()
+        .set(`room:${roomId}:paused`, JSON.stringify(paused), 'EX', CONFIG.REDIS_TTL, 'NX')
+        .expire(`room:${roomId}:quiz`, CONFIG.REDIS_TTL)
+        .expire(`room:${roomId}:currentQuestion`, CONFIG.REDIS_TTL)
+        .expire(`room:${roomId}:participants`, CONFIG.REDIS_TTL)
+        .exec();
+    if (!stored?.[0]?.[1]) return;
+
+    clearRoomTimers(roomId);
+
+    timers.set(`${roomId}:pause`, {
+        timer: setTimeout(() => {
+            abortMatch(match, 'The quiz was paused for too long').catch(console.error);
+        }, CONFIG.MAX_PAUSE_DURATION),
+        questionIndex: paused.questionIndex ?? -1,
+        roomId
+    });
+
+    // No deadline while paused; a restarted server aborts the match rather than guess one
+    await prisma.match.update({
+        where: { id: match.id },
+        data: { phaseDeadline: null }
+    }).catch(console.error);
+
+    const message: QuizPausedResponse = {
+        type: 'quizPaused',
+        payload: {
+            phase: CLIENT_PHASES[paused.phase],
+            questionIndex: paused.questionIndex,
+            remainingMs: paused.remainingMs
+        }
+    };
+    broadcastToRoom(roomId, message);
+}
+
+// pick a paused phase up where it stopped, with deadlines moved by the time spent paused
+async function resumeQuiz(roomId: string) {
+    // Taken atomically so a repeated resume can't schedule the phase twice, and cleared
+    // before scheduling so the phase handlers run
+    const results = await redis.multi()
+        .get(`room:${roomId}:paused`)
+        .del(`room:${roomId}:paused`)
+        .exec();
+    const raw = results?.[0]?.[1] as string | null | undefined;
+    if (!raw) return;
+
+    const questionData = await getQuizData(roomId);
+    if (!questionData) return;
+
+    const { matchId, settings } = questionData;
+    const { phase, questionIndex, remainingMs } = await settlePausedPhase(
+        roomId, settings, JSON.parse(raw) as PausedQuiz
+    );
+    const deadline = new Date(Date.now() + remainingMs);
+
+    // Drops the pause time limit
+    clearRoomTimers(roomId);
+
+    const message: QuizResumedResponse = {
+        type: 'quizResumed',
+        payload: { phase: CLIENT_PHASES[phase], questionIndex, remainingMs }
+    };
+    broadcastToRoom(roomId, message);
+
+    switch (phase) {
+        case 'STARTING': {
+            await redis.set(
+                `room:${roomId}:startTime`, (deadline.getTime() - settings.quizStartDelay).toString(), 'EX', CONFIG.REDIS_TTL
+            );
+
+            timers.set(`${roomId}:start`, {
+                timer: setTimeout(() => {
+                    handleNextQuestion(roomId, 0).catch(console.error);
+                }, remainingMs),
+                questionIndex: -1,
+                roomId
+            });
+            break;
+        }
+        case 'QUESTION': {
+            const question = questionIndex !== null ? questionData.questions[questionIndex] : undefined;
+            if (questionIndex === null || !question) return;
+
+            // Time spent answering before the pause still counts, so speed points ignore the pause
+            const startedAt = new Date(deadline.getTime() - settings.questionTimeLimit);
+            await redis.set(
+                `room:${roomId}:q:${questionIndex}:startedAt`, startedAt.getTime().toString(), 'EX', CONFIG.REDIS_TTL
+            );
+
+            const next: NextQuestionResponse = {
+                type: 'nextQuestion',
+                payload: {
+                    questionIndex,
+                    question: toPublicQuestion(question),
+                    startedAt: startedAt.toISOString(),
+                    expiresAt: deadline.toISOString()
+                }
+            };
+            broadcastToRoom(roomId, NextQuestionResponseSchema.parse(next), optionShuffleFor(questionData, questionIndex));
+
+            timers.set(`${roomId}:${questionIndex}`, {
+                timer: setTimeout(() => handleEndQuestion(roomId, questionIndex), remainingMs),
+                questionIndex,
+                roomId
+            });
+            break;
+        }
+        case 'REVEAL':
+            if (questionIndex === null) return;
+            scheduleNextQuestion(roomId, questionIndex, settings, remainingMs);
+            break;
+    }
+
+    await persistQuizPhase(matchId, phase, questionIndex, deadline);
+}
+
+// host ends the running match early; it is recorded as aborted and nobody is rated
+async function abortQuiz(roomId: string) {
+    const questionData = await getQuizData(roomId);
+    const match = questionData
+        ? await prisma.match.findUnique({ where: { id: questionData.matchId } })
+        : null;
+
+    if (match?.status !== 'IN_PROGRESS') {
+        throw new WebSocketError(409, 'No quiz in progress');
+    }
+
+    await abortMatch(match, 'The host ended the quiz');
+}
+
 // quiz finished handler
 async function handleQuizFinished(roomId: string) {
+    let matchId: string | null = null;
     try {
-        // Get final standings with proper error handling
-        const participants = await prisma.roomParticipant.findMany({
-            where: { roomId },
-            include: { user: true },
-            orderBy: { score: 'desc' }
-        });
+        if (await redis.exists(`room:${roomId}:paused`)) return;
 
-        // Calculate new ratings with transaction
-        const standings = await Promise.all(participants.map(async (p) => {
-            try {
-                const rating = await prisma.$transaction(async (tx) => {
-                    const currentRating = await tx.playerRating.findUnique({
-                        where: { userId: p.userId }
-                    });
+        const questionData = await getQuizData(roomId);
+        matchId = questionData?.matchId ?? null;
 
-                    const newRating = (currentRating?.rating || 1200) + (p.score * 10);
+        // The review page linked from the standings reads these, and so do the standings,
+        // so write out the last batch of every instance first
+        await flushAnswerSubmissionsEverywhere(roomId).catch(console.error);
 
-                    return tx.playerRating.upsert({
-                        where: { userId: p.userId },
-                        create: { userId: p.userId, rating: newRating },
-                        update: { rating: newRating }
+        // Players who left mid-match still get a result and a placement
+        const participants = await matchScores(roomId, matchId, questionData?.questions.length ?? 0);
+
+        const userIds = participants.map(p => p.userId);
+
+        // Rate the whole room in one transaction so every player sees the same opponents' ratings
+        let standings: QuizFinishedResponse['payload']['standings'] | null;
+        try {
+            standings = await prisma.$transaction(async (tx) => {
+                // Claimed first, so a match aborted meanwhile stays aborted and nobody is rated
+                if (matchId) {
+                    const { count } = await tx.match.updateMany({
+                        where: { id: matchId, status: 'IN_PROGRESS' },
+                        data: { status: 'COMPLETED', endedAt: new Date(), phase: null, phaseDeadline: null }
                     });
+                    if (count === 0) return null;
+                }
+
+                const currentRatings = await tx.playerRating.findMany({
+                    where: { userId: { in: userIds } }
                 });
+                const ratingByUser = new Map(currentRatings.map(r => [r.userId, r]));
 
-                return {
+                const results = calculatePairwiseElo(participants.map(p => ({
                     userId: p.userId,
-                    userName: p.user.name || 'Anonymous',
-                    score: p.score,
-                    newRating: rating.rating
-                };
-            } catch (error) {
-                console.error(`Error updating rating for user ${p.userId}:`, error);
-                return {
+                    rating: ratingByUser.get(p.userId)?.rating ?? DEFAULT_RATING,
+                    gamesPlayed: ratingByUser.get(p.userId)?.gamesPlayed ?? 0,
+                    score: p.score
+                })));
+                const resultByUser = new Map(results.map(r => [r.userId, r]));
+
+                for (const p of participants) {
+                    const result = resultByUser.get(p.userId)!;
+
+                    // Ties share a placement; a solo quiz never counts as a win
+                    const placement = 1 + participants.filter(other => other.score > p.score).length;
+                    const isWin = placement === 1 && participants.length > 1;
+
+                    await tx.playerRating.upsert({
+                        where: { userId: p.userId },
+                        create: { userId: p.userId, rating: result.newRating, gamesPlayed: 1, wins: isWin ? 1 : 0 },
+                        update: {
+                            rating: result.newRating,
+                            gamesPlayed: { increment: 1 },
+                            wins: { increment: isWin ? 1 : 0 }
+                        }
+                    });
+
+                    if (matchId) {
+                        await tx.matchResult.create({
+                            data: {
+                                matchId,
+                                userId: p.userId,
+                                score: p.score,
+                                placement,
+                                isWin,
+                                ratingBefore: result.oldRating,
+                                ratingAfter: result.newRating,
+                                ratingDelta: result.ratingDelta
+                            }
+                        });
+                    }
+                }
+
+                return participants.map(p => ({
                     userId: p.userId,
-                    userName: p.user.name || 'Anonymous',
+                    userName: p.userName,
                     score: p.score,
-                    newRating: 1200 + (p.score * 10) // Fallback calculation
-                };
+                    newRating: resultByUser.get(p.userId)?.newRating ?? DEFAULT_RATING,
+                    ratingDelta: resultByUser.get(p.userId)?.ratingDelta ?? 0
+                }));
+            });
+        } catch (error) {
+            console.error(`Error updating ratings for room ${roomId}:`, error);
+
+            // Unrated, so the match didn't complete; closing it keeps recovery from picking it up
+            if (matchId) {
+                await markMatchAborted(matchId).catch(console.error);
             }
-        }));
+
+            // Fallback: report unchanged ratings
+            const currentRatings = await prisma.playerRating.findMany({
+                where: { userId: { in: userIds } }
+            }).catch(() => []);
+            const ratingByUser = new Map(currentRatings.map(r => [r.userId, r.rating]));
+
+            standings = participants.map(p => ({
+                userId: p.userId,
+                userName: p.userName,
+                score: p.score,
+                newRating: ratingByUser.get(p.userId) ?? DEFAULT_RATING,
+                ratingDelta: 0
+            }));
+        }
+
+        // Whoever aborted the match has already told the room and cleaned up
+        if (!standings) {
+            console.warn(`Match ${matchId} in room ${roomId} was aborted before it finished`);
+            return;
+        }
 
         // Broadcast final standings
         const message: QuizFinishedResponse = {
             type: 'quizFinished',
-            payload: { standings }
+            payload: { matchId, standings }
         };
         broadcastToRoom(roomId, message);
 
         // Cleanup room data
-        cleanupRoomData(roomId);
+        cleanupRoomData(roomId, matchId);
 
     } catch (error) {
         console.error('Error finishing quiz:', error);
         // Still cleanup even if there was an error
-        cleanupRoomData(roomId);
+        cleanupRoomData(roomId, matchId);
     }
 }
 
-// room cleanup to clear expired flags
-function cleanupRoomData(roomId: string) {
+// final scores, best first: seated players' stored scores, plus those of players who answered
+// and left mid-match, summed from the per-question points
+async function matchScores(roomId: string, matchId: string | null, questionCount: number) {
+    const [seated, answered, pointsByQuestion] = await Promise.all([
+        prisma.roomParticipant.findMany({
+            where: { roomId },
+            include: { user: true }
+        }),
+        matchId
+            ? prisma.answerSubmission.findMany({ where: { matchId }, distinct: ['userId'], select: { userId: true } })
+            : Promise.resolve([]),
+        Promise.all(Array.from({ length: questionCount }, (_, i) => redis.hgetall(`room:${roomId}:q:${i}:points`)))
+    ]);
+
+    const scoreByUser = new Map(seated.map(p => [p.userId, p.score]));
+    const leftScores = new Map<number, number>(
+        answered.filter(a => !scoreByUser.has(a.userId)).map(a => [a.userId, 0])
+    );
+    for (const points of pointsByQuestion) {
+        for (const [userId, value] of Object.entries(points)) {
+            const id = parseInt(userId);
+            if (scoreByUser.has(id)) continue;
+            leftScores.set(id, (leftScores.get(id) ?? 0) + parseInt(value));
+        }
+    }
+
+    const leavers = leftScores.size > 0
+        ? await prisma.user.findMany({ where: { id: { in: Array.from(leftScores.keys()) } } })
+        : [];
+
+    return [
+        ...seated.map(p => ({ userId: p.userId, userName: p.user.name || 'Anonymous', score: p.score })),
+        ...leavers.map(u => ({ userId: u.id, userName: u.name || 'Anonymous', score: leftScores.get(u.id)! }))
+    ].sort((a, b) => b.score - a.score);
+}
+
+// room cleanup to clear expired flags; pass the question count when the shared quiz data may be gone
+function cleanupRoomData(roomId: string, matchId: string | null, knownQuestionCount?: number) {
     try {
-        // Clear questions cache
-        questionsCache.delete(roomId);
-        
-        // Clear all timers for this room
-        const timerKeys = Array.from(timers.keys()).filter(key => key.startsWith(`${roomId}:`));
-        timerKeys.forEach(key => {
-            const roomTimer = timers.get(key);
-            if (roomTimer) {
-                clearTimeout(roomTimer.timer);
-                timers.delete(key);
+        // Stop timers here and on the scheduling instance, wherever it runs
+        stopScheduling(roomId);
+        publishControl({ action: 'cleanup', roomId, matchId });
+
+        // The question count decides which per-question keys exist
+        getQuizData(roomId).then(questionData => {
+            const questionCount = knownQuestionCount ?? questionData?.questions.length ?? 0;
+
+            // Clear Redis keys
+            // Participants stay so the room can host another match
+            const keysToDelete = [
+                `room:${roomId}:quiz`,
+                `room:${roomId}:currentQuestion`,
+                `room:${roomId}:startTime`,
+                `room:${roomId}:paused`
+            ];
+
+            // Add question-specific keys including expired flags
+            for (let i = 0; i < questionCount; i++) {
+                keysToDelete.push(
+                    `room:${roomId}:q:${i}:firstUser`,
+                    `room:${roomId}:q:${i}:expired`,  // NEW: Clean up expired flags
+                    `room:${roomId}:q:${i}:ended`,
+                    `room:${roomId}:q:${i}:startedAt`,
+                    `room:${roomId}:q:${i}:points`,
+                    `room:${roomId}:q:${i}:answerCount`,
+                    `room:${roomId}:q:${i}:answered`
+                );
             }
-        });
 
-        // Clear Redis keys
-        const keysToDelete = [
-            `room:${roomId}:currentQuestion`,
-            `room:${roomId}:participants`,
-            `room:${roomId}:startTime`
-        ];
-        
-        // Add question-specific keys including expired flags
-        for (let i = 0; i < CONFIG.QUESTIONS_PER_QUIZ; i++) {
-            keysToDelete.push(
-                `room:${roomId}:q:${i}:firstUser`,
-                `room:${roomId}:q:${i}:expired`  // NEW: Clean up expired flags
-            );
-        }
-        
-        redis.del(...keysToDelete).catch(console.error);
+            return redis.del(...keysToDelete);
+        }).catch(console.error);
 
         console.log(`Cleaned up room data for ${roomId}`);
     } catch (error) {
@@ -942,19 +2488,209 @@ function cleanupRoomData(roomId: string) {
     }
 }
 
-// Periodic cleanup function for stale data
-function cleanupStaleData() {
+// record the match's phase so a restarted server can pick it up
+async function persistQuizPhase(matchId: string, phase: QuizPhase, questionIndex: number | null, deadline: Date) {
     try {
-        const now = Date.now();
-        const staleThreshold = 30 * 60 * 1000; // 30 minutes
+        await prisma.match.update({
+            where: { id: matchId },
+            data: { phase, currentQuestionIndex: questionIndex, phaseDeadline: deadline }
+        });
+    } catch (error) {
+        console.error(`Failed to persist ${phase} phase for match ${matchId}:`, error);
+    }
+}
+
+// a match that already completed is left as is
+async function markMatchAborted(matchId: string) {
+    await prisma.match.updateMany({
+        where: { id: matchId, status: 'IN_PROGRESS' },
+        data: { status: 'ABORTED', endedAt: new Date(), phase: null, phaseDeadline: null }
+    });
+}
+
+// end a match without rating it and send its players back to the lobby
+async function abortMatch(match: Match, reason: string) {
+    await markMatchAborted(match.id);
+
+    if (!match.roomId) return;
+
+    const message: QuizAbortedResponse = {
+        type: 'quizAborted',
+        payload: { roomId: match.roomId, matchId: match.id, reason }
+    };
+    broadcastToRoom(match.roomId, message);
+
+    cleanupRoomData(match.roomId, match.id, match.questionIds.length);
+}
+
+// adopt in-progress matches nobody is scheduling: on boot, and after another instance dies
+async function recoverOrphanedMatches() {
+    const matches = await prisma.match.findMany({
+        where: { status: 'IN_PROGRESS' },
+        include: { room: true },
+        orderBy: { startedAt: 'desc' }
+    });
+
+    const seenRooms = new Set<string>();
+
+    for (const match of matches) {
+        const roomId = match.roomId;
 
-        // Clean up stale questions cache
-        for (const [roomId, data] of questionsCache.entries()) {
-            if (now - data.timestamp > staleThreshold) {
-                questionsCache.delete(roomId);
-                console.log(`Cleaned up stale questions cache for room ${roomId}`);
+        // Only a room's latest match can still be running; older ones just get closed off
+        if (!roomId || !match.room || seenRooms.has(roomId)) {
+            await markMatchAborted(match.id).catch(console.error);
+            continue;
+        }
+        seenRooms.add(roomId);
+
+        if (scheduledRooms.has(roomId) || !await acquireSchedulerLease(roomId)) continue;
+
+        try {
+            // The match may have finished between the query and taking the lease
+            const current = await prisma.match.findUnique({ where: { id: match.id } });
+            if (current?.status !== 'IN_PROGRESS') {
+                await releaseSchedulerLease(roomId);
+                continue;
+            }
+
+            await recoverMatch(current, match.room);
+        } catch (error) {
+            console.error(`Failed to recover match ${match.id}:`, error);
+            stopScheduling(roomId);
+        }
+    }
+
+    await expireStaleDisconnects();
+}
+
+// rebuild a match's shared state and timers, or abort it if its phase is long over
+async function recoverMatch(match: Match, room: Room) {
+    const roomId = room.id;
+    const now = Date.now();
+    const deadline = match.phaseDeadline?.getTime();
+    const questionIndex = match.currentQuestionIndex ?? -1;
+
+    if (!match.phase || deadline === undefined || deadline + CONFIG.RECOVERY_TOLERANCE < now) {
+        console.log(`Aborting match ${match.id} in room ${roomId}: deadline passed`);
+        await abortMatch(match, 'The quiz was interrupted by a server restart');
+        return;
+    }
+
+    const found = await prisma.question.findMany({
+        where: { id: { in: match.questionIds } }
+    });
+    const questionById = new Map(found.map(q => [q.id, q]));
+    const questions = match.questionIds
+        .map(id => questionById.get(id))
+        .filter((q): q is NonNullable<typeof q> => !!q);
+
+    if (questions.length !== match.questionIds.length) {
+        await abortMatch(match, 'Questions of this quiz are no longer available');
+        return;
+    }
+
+    const settings: QuizSettings = {
+        scoringMode: match.scoringMode,
+        questionCount: questions.length,
+        questionTimeLimit: match.questionTimeLimit,
+        quizStartDelay: room.quizStartDelay,
+        nextQuestionDelay: match.nextQuestionDelay,
+        categories: room.categories,
+        difficultyMix: room.difficultyMix,
+        shuffleOptionsPerPlayer: match.shuffleOptionsPerPlayer
+    };
+
+    await setQuizData(roomId, {
+        matchId: match.id,
+        questions,
+        settings,
+        timestamp: match.startedAt.getTime()
+    });
+
+    // Redis may have lost the room's state, so restore what the handlers read
+    const participants = await prisma.roomParticipant.findMany({
+        where: { roomId },
+        select: { userId: true }
+    });
+
+    const prefix = `room:${roomId}:q:${questionIndex}`;
+    const restore = redis.multi()
+        .set(`room:${roomId}:currentQuestion`, questionIndex.toString(), 'EX', CONFIG.REDIS_TTL);
+
+    if (participants.length > 0) {
+        restore
+            .sadd(`room:${roomId}:participants`, ...participants.map(p => p.userId.toString()))
+            .expire(`room:${roomId}:participants`, CONFIG.REDIS_TTL);
+    }
+
+    const remaining = Math.max(0, deadline - now);
+
+    switch (match.phase) {
+        case 'STARTING': {
+            await restore
+                .set(`room:${roomId}:startTime`, (deadline - settings.quizStartDelay).toString(), 'EX', CONFIG.REDIS_TTL)
+                .exec();
+
+            timers.set(`${roomId}:start`, {
+                timer: setTimeout(() => {
+                    handleNextQuestion(roomId, 0).catch(console.error);
+                }, remaining),
+                questionIndex: -1,
+                roomId
+            });
+            break;
+        }
+        case 'QUESTION': {
+            await restore
+                .set(`${prefix}:startedAt`, (deadline - settings.questionTimeLimit).toString(), 'EX', CONFIG.REDIS_TTL)
+                .exec();
+
+            timers.set(`${roomId}:${questionIndex}`, {
+                timer: setTimeout(() => handleEndQuestion(roomId, questionIndex), remaining),
+                questionIndex,
+                roomId
+            });
+            break;
+        }
+        case 'REVEAL': {
+            // Keep late answers out while the answer is on screen
+            await restore
+                .set(`${prefix}:ended`, '1', 'EX', CONFIG.REDIS_TTL)
+                .set(`${prefix}:expired`, '1', 'EX', CONFIG.REDIS_TTL)
+                .exec();
+
+            scheduleNextQuestion(roomId, questionIndex, settings, remaining);
+            break;
+        }
+    }
+
+    console.log(`Recovered match ${match.id} in room ${roomId} at ${match.phase} (question ${questionIndex})`);
+}
+
+// release seats held for players whose disconnect timer died with its instance
+async function expireStaleDisconnects() {
+    const now = Date.now();
+    const stream = redis.scanStream({ match: 'room:*:disconnected', count: 100 });
+
+    for await (const keys of stream) {
+        for (const key of keys as string[]) {
+            const roomId = key.slice('room:'.length, -':disconnected'.length);
+            const entries = await redis.hgetall(key);
+
+            for (const [userId, token] of Object.entries(entries)) {
+                const disconnectedAt = parseInt(token.split(':').pop() ?? '');
+                if (isNaN(disconnectedAt) || now - disconnectedAt < CONFIG.RECONNECT_GRACE_PERIOD) continue;
+
+                await expireDisconnect(roomId, parseInt(userId), token);
             }
         }
+    }
+}
+
+// Periodic cleanup function for stale data
+function cleanupStaleData() {
+    try {
+        const now = Date.now();
 
         // Clean up stale rate limit entries
         for (const [userId, data] of rateLimitMap.entries()) {
@@ -1000,15 +2736,28 @@ async function gracefulShutdown(signal: string) {
         timers.forEach(({ timer }) => clearTimeout(timer));
         timers.clear();
 
+        // Hand back scheduler leases
+        await Promise.all(Array.from(scheduledRooms).map(roomId =>
+            releaseSchedulerLease(roomId).catch(console.error)
+        ));
+
         // Clear all connection cleanup timeouts
         connectionCleanup.forEach(timeout => clearTimeout(timeout));
         connectionCleanup.clear();
 
+        // Disconnected players keep their seats across a restart
+        disconnectTimers.forEach(timeout => clearTimeout(timeout));
+        disconnectTimers.clear();
+
+        // Write out any buffered answer submissions
+        await flushAnswerSubmissions().catch(console.error);
+
         // Close database connection
         await prisma.$disconnect();
         console.log('Database connection closed');
 
-        // Close Redis connection
+        // Close Redis connections
+        subscriber.disconnect();
         redis.disconnect();
         console.log('Redis connection closed');
 
@@ -1045,4 +2794,7 @@ const PORT = process.env.PORT || 3001;
 server.listen(PORT, () => {
     console.log(`WebSocket server is running on port ${PORT}`);
     console.log(`Health check available at http://localhost:${PORT}/health`);
+
+    // Pick up quizzes left running by a previous process
+    recoverOrphanedMatches().catch(console.error);
 });
\ No newline at end of file
@@ -10,7 +10,10 @@ export const BaseMessageSchema = z.object({
 export const JoinRoomMessageSchema = BaseMessageSchema.extend({
     type: z.literal('join'),
     payload: z.object({
-        roomId: z.string()
+        roomId: z.string(),
+        // Needed for private or password protected rooms, unless already a participant
+        password: z.string().max(100).optional(),
+        inviteCode: z.string().max(20).optional()
     })
 });
 
@@ -27,8 +30,12 @@ export const SubmitAnswerMessageSchema = BaseMessageSchema.extend({
     type: z.literal('submitAnswer'),
     payload: z.object({
         roomId: z.string(),
-        questionIndex: z.number().int().min(0).max(9),
-        choiceIdx: z.number().int().min(0).max(3)
+        questionIndex: z.number().int().min(0), // upper bound depends on the room's question count
+        // One of these, matching the question's type. Option positions are in the
+        // player's own option order; their bound depends on the question.
+        choiceIdx: z.number().int().min(0).optional(),
+        choiceIdxs: z.array(z.number().int().min(0)).max(6).optional(),
+        numericAnswer: z.number().finite().optional()
     })
 });
 
@@ -40,12 +47,104 @@ export const LeaveRoomMessageSchema = BaseMessageSchema.extend({
     })
 });
 
+// Resume message - reattach to a room after a dropped connection
+export const ResumeMessageSchema = BaseMessageSchema.extend({
+    type: z.literal('resume'),
+    payload: z.object({
+        roomId: z.string()
+    })
+});
+
+// Lobby ready check, only accepted while no quiz is running
+export const SetReadyMessageSchema = BaseMessageSchema.extend({
+    type: z.literal('setReady'),
+    payload: z.object({
+        roomId: z.string(),
+        ready: z.boolean()
+    })
+});
+
+// Host controls - also reachable over HTTP as POST /host-actions
+export const KickParticipantMessageSchema = BaseMessageSchema.extend({
+    type: z.literal('kickParticipant'),
+    payload: z.object({
+        roomId: z.string(),
+        userId: z.number().int()
+    })
+});
+
+// Kicks the player if seated and keeps them from joining again
+export const BanParticipantMessageSchema = BaseMessageSchema.extend({
+    type: z.literal('banParticipant'),
+    payload: z.object({
+        roomId: z.string(),
+        userId: z.number().int()
+    })
+});
+
+export const TransferHostMessageSchema = BaseMessageSchema.extend({
+    type: z.literal('transferHost'),
+    payload: z.object({
+        roomId: z.string(),
+        userId: z.number().int()
+    })
+});
+
+export const LockRoomMessageSchema = BaseMessageSchema.extend({
+    type: z.literal('lockRoom'),
+    payload: z.object({
+        roomId: z.string(),
+        locked: z.boolean()
+    })
+});
+
+// Pause freezes the current phase's remaining time until resumed; abort ends the match without ratings
+export const PauseQuizMessageSchema = BaseMessageSchema.extend({
+    type: z.literal('pauseQuiz'),
+    payload: z.object({
+        roomId: z.string()
+    })
+});
+
+export const ResumeQuizMessageSchema = BaseMessageSchema.extend({
+    type: z.literal('resumeQuiz'),
+    payload: z.object({
+        roomId: z.string()
+    })
+});
+
+export const AbortQuizMessageSchema = BaseMessageSchema.extend({
+    type: z.literal('abortQuiz'),
+    payload: z.object({
+        roomId: z.string()
+    })
+});
+
 // Combined message schema
 export const WebSocketMessageSchema = z.discriminatedUnion('type', [
     JoinRoomMessageSchema,
     StartQuizMessageSchema,
     SubmitAnswerMessageSchema,
-    LeaveRoomMessageSchema
+    LeaveRoomMessageSchema,
+    ResumeMessageSchema,
+    SetReadyMessageSchema,
+    KickParticipantMessageSchema,
+    BanParticipantMessageSchema,
+    TransferHostMessageSchema,
+    LockRoomMessageSchema,
+    PauseQuizMessageSchema,
+    ResumeQuizMessageSchema,
+    AbortQuizMessageSchema
+]);
+
+export const HostActionMessageSchema = z.discriminatedUnion('type', [
+    KickParticipantMessageSchema,
+    BanParticipantMessageSchema,
+    TransferHostMessageSchema,
+    LockRoomMessageSchema,
+    PauseQuizMessageSchema,
+    ResumeQuizMessageSchema,
+    AbortQuizMessageSchema
 ]);
 
 // Response message schemas
@@ -64,16 +163,42 @@ export const JoinedRoomResponseSchema = z.object({
     })
 });
 
+export const ParticipantJoinedResponseSchema = z.object({
+    type: z.literal('participantJoined'),
+    payload: z.object({
+        userId: z.number(),
+        userName: z.string()
+    })
+});
+
+// Countdown before the first question, durations in milliseconds
+export const QuizStartingResponseSchema = z.object({
+    type: z.literal('quizStarting'),
+    payload: z.object({
+        roomId: z.string(),
+        matchId: z.string(),
+        startDelay: z.number(),
+        questionCount: z.number(),
+        scoringMode: z.enum(['FIRST_CORRECT', 'SPEED'])
+    })
+});
+
+// Question as broadcast to players - never carries the correct answer
+export const PublicQuestionSchema = z.object({
+    id: z.number(),
+    text: z.string(), // markdown
+    imageUrl: z.string().nullable(),
+    type: z.enum(['SINGLE_CHOICE', 'MULTI_SELECT', 'NUMERIC']),
+    options: z.array(z.string()), // empty for numeric questions
+    category: z.string(),
+    difficulty: z.enum(['EASY', 'MEDIUM', 'HARD'])
+}).strict();
+
 export const NextQuestionResponseSchema = z.object({
     type: z.literal('nextQuestion'),
     payload: z.object({
         questionIndex: z.number(),
-        question: z.object({
-            id: z.number(),
-            text: z.string(),
-            options: z.array(z.string()),
-            correctIdx: z.number()
-        }),
+        question: PublicQuestionSchema,
         startedAt: z.string(),
         expiresAt: z.string()
     })
@@ -83,8 +208,71 @@ export const EndQuestionResponseSchema = z.object({
     type: z.literal('endQuestion'),
     payload: z.object({
         questionIndex: z.number(),
-        correctIdx: z.number(),
-        winnerUserId: z.number().nullable()
+        correctIdx: z.number().nullable(), // single choice questions only
+        correctIdxs: z.array(z.number()), // every correct option, empty for numeric questions
+        numericAnswer: z.number().nullable(),
+        numericTolerance: z.number().nullable(),
+        explanation: z.string().nullable(), // markdown
+        sourceUrl: z.string().nullable(),
+        winnerUserId: z.number().nullable(),
+        // Points each participant earned on this question
+        points: z.array(z.object({
+            userId: z.number(),
+            points: z.number()
+        }))
+    })
+});
+
+// Ready state of the lobby, broadcast whenever it changes and sent to each joining player
+export const LobbyUpdateResponseSchema = z.object({
+    type: z.literal('lobbyUpdate'),
+    payload: z.object({
+        readyUserIds: z.array(z.number()),
+        // Set once the host tried to start before everyone was ready; past it the host can start anyway
+        readyDeadline: z.string().nullable()
+    })
+});
+
+// Sent to the whole room, including the removed player, before they are detached
+export const ParticipantKickedResponseSchema = z.object({
+    type: z.literal('participantKicked'),
+    payload: z.object({
+        userId: z.number(),
+        banned: z.boolean()
+    })
+});
+
+export const HostTransferredResponseSchema = z.object({
+    type: z.literal('hostTransferred'),
+    payload: z.object({
+        hostId: z.number(),
+        hostName: z.string()
+    })
+});
+
+export const RoomLockChangedResponseSchema = z.object({
+    type: z.literal('roomLockChanged'),
+    payload: z.object({
+        locked: z.boolean()
+    })
+});
+
+// A question phase is re-issued as nextQuestion with a new expiresAt right after quizResumed
+export const QuizPausedResponseSchema = z.object({
+    type: z.literal('quizPaused'),
+    payload: z.object({
+        phase: z.enum(['starting', 'question', 'reveal']),
+        questionIndex: z.number().nullable(),
+        remainingMs: z.number()
+    })
+});
+
+export const QuizResumedResponseSchema = z.object({
+    type: z.literal('quizResumed'),
+    payload: z.object({
+        phase: z.enum(['starting', 'question', 'reveal']),
+        questionIndex: z.number().nullable(),
+        remainingMs: z.number()
     })
 });
 
@@ -95,25 +283,118 @@ export const ParticipantLeftResponseSchema = z.object({
     })
 });
 
+export const ParticipantDisconnectedResponseSchema = z.object({
+    type: z.literal('participantDisconnected'),
+    payload: z.object({
+        userId: z.number(),
+        gracePeriodMs: z.number()
+    })
+});
+
+export const ParticipantReconnectedResponseSchema = z.object({
+    type: z.literal('participantReconnected'),
+    payload: z.object({
+        userId: z.number()
+    })
+});
+
+// Snapshot of the room sent to a resuming player
+export const ResumedResponseSchema = z.object({
+    type: z.literal('resumed'),
+    payload: z.object({
+        roomId: z.string(),
+        hostId: z.number(),
+        matchId: z.string().nullable(),
+        // lobby: no quiz running, starting: countdown before the first question,
+        // question: answering open, reveal: answer shown until the next question
+        phase: z.enum(['lobby', 'starting', 'question', 'reveal']),
+        questionIndex: z.number().nullable(),
+        questionCount: z.number().nullable(),
+        question: PublicQuestionSchema.nullable(),
+        startedAt: z.string().nullable(),
+        expiresAt: z.string().nullable(),
+        // Answer fields are only set once the question has ended
+        correctIdx: z.number().nullable(),
+        correctIdxs: z.array(z.number()).nullable(),
+        numericAnswer: z.number().nullable(),
+        numericTolerance: z.number().nullable(),
+        explanation: z.string().nullable(),
+        sourceUrl: z.string().nullable(),
+        hasAnswered: z.boolean(),
+        // Set while the host has the quiz paused; expiresAt is stale until it resumes
+        pausedRemainingMs: z.number().nullable(),
+        scores: z.array(z.object({
+            userId: z.number(),
+            userName: z.string(),
+            score: z.number()
+        }))
+    })
+});
+
 export const QuizFinishedResponseSchema = z.object({
     type: z.literal('quizFinished'),
     payload: z.object({
+        matchId: z.string().nullable(),
         standings: z.array(z.object({
             userId: z.number(),
+            userName: z.string(),
             score: z.number(),
-            newRating: z.number()
+            newRating: z.number(),
+            ratingDelta: z.number()
         }))
     })
 });
 
+// Match ended without results, e.g. it could not be recovered after a restart
+export const QuizAbortedResponseSchema = z.object({
+    type: z.literal('quizAborted'),
+    payload: z.object({
+        roomId: z.string(),
+        matchId: z.string(),
+        reason: z.string()
+    })
+});
+
 // Type exports
 export type WebSocketMessage = z.infer<typeof WebSocketMessageSchema>;
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
 export type JoinedRoomResponse = z.infer<typeof JoinedRoomResponseSchema>;
+export type ParticipantJoinedResponse = z.infer<typeof ParticipantJoinedResponseSchema>;
+export type QuizStartingResponse = z.infer<typeof QuizStartingResponseSchema>;
+export type PublicQuestion = z.infer<typeof PublicQuestionSchema>;
 export type NextQuestionResponse = z.infer<typeof NextQuestionResponseSchema>;
 export type EndQuestionResponse = z.infer<typeof EndQuestionResponseSchema>;
+export type LobbyUpdateResponse = z.infer<typeof LobbyUpdateResponseSchema>;
+export type HostActionMessage = z.infer<typeof HostActionMessageSchema>;
+export type ParticipantKickedResponse = z.infer<typeof ParticipantKickedResponseSchema>;
+export type HostTransferredResponse = z.infer<typeof HostTransferredResponseSchema>;
+export type RoomLockChangedResponse = z.infer<typeof RoomLockChangedResponseSchema>;
+export type QuizPausedResponse = z.infer<typeof QuizPausedResponseSchema>;
+export type QuizResumedResponse = z.infer<typeof QuizResumedResponseSchema>;
 export type ParticipantLeftResponse = z.infer<typeof ParticipantLeftResponseSchema>;
+export type ParticipantDisconnectedResponse = z.infer<typeof ParticipantDisconnectedResponseSchema>;
+export type ParticipantReconnectedResponse = z.infer<typeof ParticipantReconnectedResponseSchema>;
+export type ResumedResponse = z.infer<typeof ResumedResponseSchema>;
 export type QuizFinishedResponse = z.infer<typeof QuizFinishedResponseSchema>;
+export type QuizAbortedResponse = z.infer<typeof QuizAbortedResponseSchema>;
+
+// Every message sent to a whole room
+export type RoomBroadcast =
+    | ParticipantJoinedResponse
+    | QuizStartingResponse
+    | NextQuestionResponse
+    | EndQuestionResponse
+    | LobbyUpdateResponse
+    | ParticipantKickedResponse
+    | HostTransferredResponse
+    | RoomLockChangedResponse
+    | QuizPausedResponse
+    | QuizResumedResponse
+    | ParticipantLeftResponse
+    | ParticipantDisconnectedResponse
+    | ParticipantReconnectedResponse
+    | QuizFinishedResponse
+    | QuizAbortedResponse;
 
 // Custom error class
 export class WebSocketError extends Error {
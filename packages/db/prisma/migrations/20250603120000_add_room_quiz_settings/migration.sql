@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "nextQuestionDelay" INTEGER NOT NULL DEFAULT 3000,
+ADD COLUMN     "questionCount" INTEGER NOT NULL DEFAULT 10,
+ADD COLUMN     "questionTimeLimit" INTEGER NOT NULL DEFAULT 10000,
+ADD COLUMN     "quizStartDelay" INTEGER NOT NULL DEFAULT 5000;
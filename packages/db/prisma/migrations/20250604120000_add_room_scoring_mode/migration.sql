@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "ScoringMode" AS ENUM ('FIRST_CORRECT', 'SPEED');
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "scoringMode" "ScoringMode" NOT NULL DEFAULT 'FIRST_CORRECT';
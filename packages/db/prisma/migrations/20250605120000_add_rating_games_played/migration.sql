@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PlayerRating" ADD COLUMN     "gamesPlayed" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "PlayerRating" ADD COLUMN     "wins" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "RatingHistory" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "ratingBefore" INTEGER NOT NULL,
+    "ratingAfter" INTEGER NOT NULL,
+    "ratingDelta" INTEGER NOT NULL,
+    "score" INTEGER NOT NULL,
+    "placement" INTEGER NOT NULL,
+    "playerCount" INTEGER NOT NULL,
+    "isWin" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RatingHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RatingHistory_createdAt_idx" ON "RatingHistory"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "RatingHistory_userId_createdAt_idx" ON "RatingHistory"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "RatingHistory" ADD CONSTRAINT "RatingHistory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,93 @@
+-- CreateEnum
+CREATE TYPE "MatchStatus" AS ENUM ('IN_PROGRESS', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "Match" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT,
+    "scoringMode" "ScoringMode" NOT NULL,
+    "questionIds" INTEGER[],
+    "status" "MatchStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Match_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MatchResult" (
+    "id" SERIAL NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "score" INTEGER NOT NULL,
+    "placement" INTEGER NOT NULL,
+    "isWin" BOOLEAN NOT NULL,
+    "ratingBefore" INTEGER NOT NULL,
+    "ratingAfter" INTEGER NOT NULL,
+    "ratingDelta" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MatchResult_pkey" PRIMARY KEY ("id")
+);
+
+-- Move rating history into matches, one match per room and finish time
+INSERT INTO "Match" ("id", "roomId", "scoringMode", "questionIds", "status", "startedAt", "endedAt")
+SELECT DISTINCT
+    md5(h."roomId" || h."createdAt"::text)::uuid::text,
+    r."id",
+    'FIRST_CORRECT',
+    ARRAY[]::INTEGER[],
+    'COMPLETED',
+    h."createdAt",
+    h."createdAt"
+FROM "RatingHistory" h
+LEFT JOIN "Room" r ON r."id" = h."roomId";
+
+INSERT INTO "MatchResult" ("matchId", "userId", "score", "placement", "isWin", "ratingBefore", "ratingAfter", "ratingDelta", "createdAt")
+SELECT
+    md5(h."roomId" || h."createdAt"::text)::uuid::text,
+    h."userId",
+    h."score",
+    h."placement",
+    h."isWin",
+    h."ratingBefore",
+    h."ratingAfter",
+    h."ratingDelta",
+    h."createdAt"
+FROM "RatingHistory" h;
+
+-- DropTable
+DROP TABLE "RatingHistory";
+
+-- DropIndex
+DROP INDEX "AnswerClaim_roomId_questionIndex_key";
+
+-- AlterTable
+ALTER TABLE "AnswerClaim" ADD COLUMN     "matchId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnswerClaim_matchId_questionIndex_key" ON "AnswerClaim"("matchId", "questionIndex");
+
+-- CreateIndex
+CREATE INDEX "Match_roomId_idx" ON "Match"("roomId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MatchResult_matchId_userId_key" ON "MatchResult"("matchId", "userId");
+
+-- CreateIndex
+CREATE INDEX "MatchResult_createdAt_idx" ON "MatchResult"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "MatchResult_userId_createdAt_idx" ON "MatchResult"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AnswerClaim" ADD CONSTRAINT "AnswerClaim_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchResult" ADD CONSTRAINT "MatchResult_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MatchResult" ADD CONSTRAINT "MatchResult_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AnswerClaim" ADD COLUMN     "latencyMs" INTEGER;
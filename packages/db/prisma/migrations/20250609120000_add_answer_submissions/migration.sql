@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "AnswerSubmission" (
+    "id" SERIAL NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "questionId" INTEGER NOT NULL,
+    "questionIndex" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "choiceIdx" INTEGER NOT NULL,
+    "isCorrect" BOOLEAN NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "submittedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AnswerSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AnswerSubmission_matchId_idx" ON "AnswerSubmission"("matchId");
+
+-- CreateIndex
+CREATE INDEX "AnswerSubmission_questionId_idx" ON "AnswerSubmission"("questionId");
+
+-- CreateIndex
+CREATE INDEX "AnswerSubmission_userId_submittedAt_idx" ON "AnswerSubmission"("userId", "submittedAt");
+
+-- AddForeignKey
+ALTER TABLE "AnswerSubmission" ADD CONSTRAINT "AnswerSubmission_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnswerSubmission" ADD CONSTRAINT "AnswerSubmission_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnswerSubmission" ADD CONSTRAINT "AnswerSubmission_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "MatchStatus" ADD VALUE 'ABORTED';
+
+-- CreateEnum
+CREATE TYPE "QuizPhase" AS ENUM ('STARTING', 'QUESTION', 'REVEAL');
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "currentQuestionIndex" INTEGER,
+ADD COLUMN     "nextQuestionDelay" INTEGER NOT NULL DEFAULT 3000,
+ADD COLUMN     "phase" "QuizPhase",
+ADD COLUMN     "phaseDeadline" TIMESTAMP(3),
+ADD COLUMN     "questionTimeLimit" INTEGER NOT NULL DEFAULT 10000;
+
+-- CreateIndex
+CREATE INDEX "Match_status_idx" ON "Match"("status");
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "Difficulty" AS ENUM ('EASY', 'MEDIUM', 'HARD');
+
+-- CreateEnum
+CREATE TYPE "DifficultyMix" AS ENUM ('ANY', 'EASY', 'MEDIUM', 'HARD', 'BALANCED');
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "category" TEXT NOT NULL DEFAULT 'General',
+ADD COLUMN     "difficulty" "Difficulty" NOT NULL DEFAULT 'MEDIUM',
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "categories" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "difficultyMix" "DifficultyMix" NOT NULL DEFAULT 'ANY';
+
+-- CreateIndex
+CREATE INDEX "Question_category_idx" ON "Question"("category");
+
+-- CreateIndex
+CREATE INDEX "Question_difficulty_idx" ON "Question"("difficulty");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "shuffleOptionsPerPlayer" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "shuffleOptionsPerPlayer" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "QuestionType" AS ENUM ('SINGLE_CHOICE', 'MULTI_SELECT', 'NUMERIC');
+
+-- AlterTable
+ALTER TABLE "AnswerSubmission" ADD COLUMN     "choiceIdxs" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "numericAnswer" DOUBLE PRECISION,
+ALTER COLUMN "choiceIdx" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "correctIdxs" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "numericAnswer" DOUBLE PRECISION,
+ADD COLUMN     "numericTolerance" DOUBLE PRECISION,
+ADD COLUMN     "partialCredit" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "type" "QuestionType" NOT NULL DEFAULT 'SINGLE_CHOICE';
+
+-- Existing questions are single choice; correctIdxs always lists the correct options
+UPDATE "Question" SET "correctIdxs" = ARRAY["correctIdx"];
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "explanation" TEXT,
+ADD COLUMN     "sourceUrl" TEXT;
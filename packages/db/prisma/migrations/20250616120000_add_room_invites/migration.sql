@@ -0,0 +1,14 @@
+-- Hash existing plaintext room passwords; pgcrypto's bf hashes are bcrypt compatible
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+UPDATE "Room" SET "password" = crypt("password", gen_salt('bf', 10)) WHERE "password" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "inviteCode" TEXT,
+ADD COLUMN     "isPrivate" BOOLEAN NOT NULL DEFAULT false;
+
+-- Give existing rooms a code before making it required
+UPDATE "Room" SET "inviteCode" = upper(substr(md5(random()::text || "id"), 1, 8));
+ALTER TABLE "Room" ALTER COLUMN "inviteCode" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Room_inviteCode_key" ON "Room"("inviteCode");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "bannedUserIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "isLocked" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "readyTimeout" INTEGER NOT NULL DEFAULT 30000,
+ADD COLUMN     "requireReady" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "AnswerSubmission" DROP CONSTRAINT "AnswerSubmission_questionId_fkey";
+
+-- AlterTable
+ALTER TABLE "AnswerSubmission" ALTER COLUMN "questionId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "AnswerSubmission" ADD CONSTRAINT "AnswerSubmission_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -3,9 +3,20 @@ import { type JSX } from "react";
 export function Code({
   children,
   className,
+  block = false,
+  language,
 }: {
   children: React.ReactNode;
   className?: string;
+  block?: boolean; // fenced code: preformatted on its own lines
+  language?: string;
 }): JSX.Element {
+  if (block) {
+    return (
+      <pre className={className} data-language={language || undefined}>
+        <code>{children}</code>
+      </pre>
+    );
+  }
   return <code className={className}>{children}</code>;
 }
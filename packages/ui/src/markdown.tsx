@@ -0,0 +1,152 @@
+import { Fragment, type JSX, type ReactNode } from "react";
+import { Code } from "./code";
+
+// Supports paragraphs, line breaks, fenced code blocks, `inline code`,
+// **bold**, *italic* / _italic_ and [links](https://...). Everything is
+// rendered as React elements and text, never as HTML, so markup in the
+// source shows up literally instead of being interpreted.
+
+export interface MarkdownClassNames {
+  paragraph?: string;
+  code?: string;
+  codeBlock?: string;
+  link?: string;
+}
+
+type Block =
+  | { kind: "paragraph"; text: string }
+  | { kind: "code"; language: string; text: string };
+
+const FENCE_OPEN = /^```\s*([\w+#-]*)\s*$/;
+const FENCE_CLOSE = /^```\s*$/;
+// Emphasis only opens and closes at a word edge, so snake_case_name, __init__
+// and a * b * c stay as written
+const INLINE = new RegExp(
+  [
+    /`([^`]+)`/.source,
+    /(?<![\w*])\*\*(?![\s*])(.+?)(?<![\s*])\*\*(?![\w*])/.source,
+    /(?<![\w*])\*(?![\s*])(.+?)(?<![\s*])\*(?![\w*])/.source,
+    /(?<!\w)_(?![\s_])(.+?)(?<![\s_])_(?!\w)/.source,
+    /\[([^\]]+)\]\(([^)\s]+)\)/.source,
+  ].join("|"),
+  "g",
+);
+
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: "paragraph", text: paragraph.join("\n") });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? "";
+    const fence = FENCE_OPEN.exec(line);
+
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      // An unclosed fence runs to the end of the source
+      while (++i < lines.length && !FENCE_CLOSE.test(lines[i] ?? "")) {
+        code.push(lines[i] ?? "");
+      }
+      blocks.push({ kind: "code", language: fence[1] ?? "", text: code.join("\n") });
+    } else if (line.trim() === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// Only plain web links; javascript: and friends render as text
+const isSafeHref = (href: string) => /^https?:\/\//i.test(href);
+
+function renderInline(text: string, classNames: MarkdownClassNames): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  // Matched against the whole line, so the word-edge checks see the text before each match
+  const inline = new RegExp(INLINE);
+  let last = 0;
+
+  for (let match = inline.exec(text); match; match = inline.exec(text)) {
+    if (match.index > last) {
+      nodes.push(text.slice(last, match.index));
+    }
+
+    const [whole, code, bold, star, underscore, linkText, href] = match;
+    const key = nodes.length;
+
+    if (code !== undefined) {
+      nodes.push(<Code key={key} className={classNames.code}>{code}</Code>);
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold, classNames)}</strong>);
+    } else if (star !== undefined || underscore !== undefined) {
+      nodes.push(<em key={key}>{renderInline(star ?? underscore ?? "", classNames)}</em>);
+    } else if (linkText !== undefined && href !== undefined && isSafeHref(href)) {
+      nodes.push(
+        <a key={key} href={href} className={classNames.link} target="_blank" rel="noopener noreferrer nofollow">
+          {renderInline(linkText, classNames)}
+        </a>,
+      );
+    } else {
+      nodes.push(whole);
+    }
+
+    last = match.index + whole.length;
+  }
+
+  if (last < text.length) {
+    nodes.push(text.slice(last));
+  }
+
+  return nodes;
+}
+
+function renderLines(text: string, classNames: MarkdownClassNames): ReactNode[] {
+  return text.split("\n").map((line, i) => (
+    <Fragment key={i}>
+      {i > 0 && <br />}
+      {renderInline(line, classNames)}
+    </Fragment>
+  ));
+}
+
+export function Markdown({
+  source,
+  inline = false,
+  className,
+  classNames = {},
+}: {
+  source: string;
+  inline?: boolean; // inline formatting only, e.g. for answer options
+  className?: string;
+  classNames?: MarkdownClassNames;
+}): JSX.Element {
+  if (inline) {
+    return <span className={className}>{renderLines(source, classNames)}</span>;
+  }
+
+  return (
+    <div className={className}>
+      {parseBlocks(source).map((block, i) =>
+        block.kind === "code" ? (
+          <Code key={i} block language={block.language} className={classNames.codeBlock}>
+            {block.text}
+          </Code>
+        ) : (
+          <p key={i} className={classNames.paragraph}>
+            {renderLines(block.text, classNames)}
+          </p>
+        ),
+      )}
+    </div>
+  );
+}